@@ -0,0 +1,99 @@
+/**
+ * A BotDefinition describes the parts of a Lex Bot that code hooks depend upon: its Intents, their Slots in
+ * elicitation order, and the custom Slot types.  It is used to simulate Lex locally.
+ */
+
+export interface SlotDefinition {
+  name: string;
+  /**
+   * e.g. 'AMAZON.DATE', or the name of a custom Slot type
+   */
+  slotType: string;
+  /**
+   * Is a value required before the Intent can be fulfilled?  Defaults to true.
+   */
+  required?: boolean;
+  /**
+   * The message Lex uses to elicit the Slot.
+   */
+  prompt?: string;
+}
+
+export interface SlotTypeValue {
+  value: string;
+  synonyms?: string[];
+}
+
+export interface SlotTypeDefinition {
+  name: string;
+  values: SlotTypeValue[];
+}
+
+export interface IntentDefinition {
+  name: string;
+  /**
+   * Slots in the order Lex elicits them.
+   */
+  slots: SlotDefinition[];
+  sampleUtterances?: string[];
+  /**
+   * If specified, Lex asks for confirmation with this message before fulfillment.
+   */
+  confirmationPrompt?: string;
+  /**
+   * Is the dialog code hook invoked?  Defaults to true.
+   */
+  dialogCodeHook?: boolean;
+  /**
+   * Is the fulfillment code hook invoked?  Defaults to true.
+   */
+  fulfillmentCodeHook?: boolean;
+}
+
+export interface BotDefinition {
+  name: string;
+  alias?: string;
+  version?: string;
+  intents: IntentDefinition[];
+  slotTypes?: SlotTypeDefinition[];
+}
+
+/**
+ * Helper functions for BotDefinitions.
+ */
+export class BotDefinitions {
+  /**
+   * Returns the definition of an Intent, or undefined.
+   *
+   * @param bot
+   * @param intentName
+   */
+  public static getIntent = (bot: BotDefinition, intentName: string): IntentDefinition | undefined => {
+    return bot.intents.find((i) => i.name === intentName);
+  };
+
+  /**
+   * Returns the definition of a custom Slot type, or undefined for built-in types.
+   *
+   * @param bot
+   * @param slotType
+   */
+  public static getSlotType = (bot: BotDefinition, slotType: string): SlotTypeDefinition | undefined => {
+    return (bot.slotTypes || []).find((st) => st.name === slotType);
+  };
+
+  /**
+   * Resolves text to the canonical value of a custom Slot type by matching, case-insensitively, a value or one
+   * of its synonyms.  Returns undefined if there is no match.
+   *
+   * @param slotType
+   * @param text
+   */
+  public static resolveSlotTypeValue = (slotType: SlotTypeDefinition, text: string): string | undefined => {
+    const t = (text || '').trim().toLowerCase();
+    const match = slotType.values.find(
+      (v) => v.value.toLowerCase() === t || (v.synonyms || []).some((s) => s.toLowerCase() === t),
+    );
+    return match ? match.value : undefined;
+  };
+}
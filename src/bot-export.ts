@@ -0,0 +1,229 @@
+import { BotDefinition, BotDefinitions, IntentDefinition, SlotTypeDefinition } from './bot-definition';
+import { LexHookError } from './errors';
+import {
+  DialogEventHandlerConfig,
+  SetMembershipOptions,
+  SetMembershipSlotEvaluator,
+  SlotEvaluator,
+} from './default-dialog';
+
+/**
+ * Lex V1 Bots and Intents can be exported from the Lex console, or with the GetExport API, as JSON in the LEX
+ * format.  The functions below read such an export into a BotDefinition, so that Slot names are maintained in one
+ * place: they generate typed Intent and Slot name constants, create SetMembershipSlotEvaluators from custom Slot
+ * type values, and report drift between a DialogEventHandlerConfig and the Bot.
+ *
+ *     const bot = BotExports.fromLexV1Export(fs.readFileSync('OrderFlowers_Export.json', 'utf8'));
+ *     fs.writeFileSync('src/bot-names.ts', BotExports.generateNames(bot));
+ */
+
+export interface LexV1ExportPrompt {
+  messages: { contentType: string; content: string; groupNumber?: number }[];
+  maxAttempts?: number;
+}
+
+export interface LexV1ExportSlot {
+  name: string;
+  slotConstraint: 'Required' | 'Optional';
+  slotType: string;
+  slotTypeVersion?: string;
+  valueElicitationPrompt?: LexV1ExportPrompt;
+  priority?: number;
+  sampleUtterances?: string[];
+}
+
+export interface LexV1ExportIntent {
+  name: string;
+  version?: string;
+  slots?: LexV1ExportSlot[];
+  sampleUtterances?: string[];
+  dialogCodeHook?: { uri: string; messageVersion: string };
+  fulfillmentActivity?: { type: 'ReturnIntent' | 'CodeHook'; codeHook?: { uri: string; messageVersion: string } };
+  confirmationPrompt?: LexV1ExportPrompt;
+}
+
+export interface LexV1ExportSlotType {
+  name: string;
+  version?: string;
+  enumerationValues: { value: string; synonyms?: string[] }[];
+  valueSelectionStrategy?: 'ORIGINAL_VALUE' | 'TOP_RESOLUTION';
+}
+
+/**
+ * The JSON of a Lex V1 export.  The resource is a Bot, with Intents, or a single Intent.
+ */
+export interface LexV1Export {
+  metadata: { schemaVersion: string; importType: string; importFormat: string };
+  resource: {
+    name: string;
+    version?: string;
+    intents?: LexV1ExportIntent[];
+    slotTypes?: LexV1ExportSlotType[];
+  } & Partial<LexV1ExportIntent>;
+}
+
+/**
+ * Functions that read Lex V1 exports, and use the resulting BotDefinitions.
+ */
+export class BotExports {
+  /**
+   * Reads a Lex V1 export into a BotDefinition.  Slots are ordered by priority.  Throws a LexHookError if the
+   * export is malformed JSON, or not a Lex V1 export.
+   *
+   * @param lexExport - the export, or its JSON text
+   */
+  public static fromLexV1Export = (lexExport: LexV1Export | string): BotDefinition => {
+    let e: LexV1Export;
+    try {
+      e = typeof lexExport === 'string' ? JSON.parse(lexExport) : lexExport;
+    } catch (error) {
+      throw new LexHookError(`not a Lex V1 export, the JSON is malformed: ${error.message}`);
+    }
+    if (!e || !e.resource || (e.metadata && e.metadata.importType !== 'LEX')) {
+      throw new LexHookError('not a Lex V1 export in the LEX format');
+    }
+
+    const r = e.resource;
+    const intents: LexV1ExportIntent[] = r.intents || (r.slots || r.sampleUtterances ? [r as LexV1ExportIntent] : []);
+
+    return {
+      name: r.name,
+      version: r.version,
+      intents: intents.map(BotExports.toIntentDefinition),
+      slotTypes: (r.slotTypes || []).map(
+        (st): SlotTypeDefinition => ({
+          name: st.name,
+          values: st.enumerationValues.map((v) => ({ value: v.value, synonyms: v.synonyms || [] })),
+        }),
+      ),
+    };
+  };
+
+  /**
+   * Generates TypeScript source declaring the Intent and Slot names of a Bot as constants, e.g.
+   *
+   *     export const IntentNames = { OrderFlowers: 'OrderFlowers' } as const;
+   *     export const OrderFlowersSlots = { FlowerType: 'FlowerType', PickupDate: 'PickupDate' } as const;
+   *     export type OrderFlowersSlot = typeof OrderFlowersSlots[keyof typeof OrderFlowersSlots];
+   *
+   * so that code hooks refer to OrderFlowersSlots.FlowerType rather than 'FlowerType', and can type LexEvents and
+   * DialogEventHandlerConfigs with the Slot name union, e.g. DialogEventHandlerConfig<OrderFlowersSlot>.
+   *
+   * @param bot
+   */
+  public static generateNames = (bot: BotDefinition): string => {
+    const identifier = (name: string): string => name.replace(/[^A-Za-z0-9_$]/g, '_').replace(/^([0-9])/, '_$1');
+    const constant = (name: string, values: string[]): string => {
+      const entries = values.map((v) => `  ${identifier(v)}: ${JSON.stringify(v)},`);
+      return [`export const ${name} = {`, ...entries, '} as const;', ''].join('\n');
+    };
+    const slots = (intent: IntentDefinition): string => {
+      const name = identifier(intent.name);
+      const slotNames = intent.slots.map((s) => s.name);
+      const union = `export type ${name}Slot = typeof ${name}Slots[keyof typeof ${name}Slots];\n`;
+      return constant(`${name}Slots`, slotNames) + union;
+    };
+    const intentNames = bot.intents.map((i) => i.name);
+
+    return [
+      `// Generated from the ${bot.name} Bot definition.  Do not edit.`,
+      '',
+      constant('IntentNames', intentNames),
+      ...bot.intents.map(slots),
+    ].join('\n');
+  };
+
+  /**
+   * Creates a SetMembershipSlotEvaluator for each Slot of an Intent that has a custom Slot type, whose Set is the
+   * values of the Slot type.  Synonyms of the values are matched too.  Slots of built-in types are ignored.
+   *
+   * @param bot
+   * @param intentName
+   * @param options - e.g. { caseInsensitive: true }, and whether to offer the values as buttons
+   */
+  public static createSetMembershipEvaluators = (
+    bot: BotDefinition,
+    intentName: string,
+    options: SetMembershipOptions & { offerButtons?: boolean } = {},
+  ): SetMembershipSlotEvaluator[] => {
+    const intent = BotDefinitions.getIntent(bot, intentName);
+    if (!intent) throw new LexHookError(`intent ${intentName} is not defined by bot ${bot.name}`);
+
+    const { offerButtons, ...matching } = options;
+    const evaluators: SetMembershipSlotEvaluator[] = [];
+
+    intent.slots.forEach((slot) => {
+      const slotType = BotDefinitions.getSlotType(bot, slot.slotType);
+      if (!slotType) return;
+
+      const synonyms: { [synonym: string]: string } = {};
+      slotType.values.forEach((v) => (v.synonyms || []).forEach((s) => (synonyms[s] = v.value)));
+      evaluators.push(
+        new SetMembershipSlotEvaluator(
+          slot.name,
+          slot.prompt || `What is the ${slot.name}?`,
+          new Set(slotType.values.map((v) => v.value)),
+          !!offerButtons,
+          { ...matching, synonyms: { ...synonyms, ...matching.synonyms } },
+        ),
+      );
+    });
+
+    return evaluators;
+  };
+
+  /**
+   * Reports drift between the configuration of a DefaultDialogEventHandler and an Intent of a Bot: SlotEvaluators
+   * and SlotRules for Slots that the Intent does not have.  Returns a description of each problem found.
+   *
+   * @param bot
+   * @param intentName
+   * @param config - a DialogEventHandlerConfig, or its slotEvaluatorArray
+   */
+  public static detectDrift = (
+    bot: BotDefinition,
+    intentName: string,
+    config: Pick<DialogEventHandlerConfig, 'slotEvaluatorArray' | 'slotRules'> | SlotEvaluator[],
+  ): string[] => {
+    const intent = BotDefinitions.getIntent(bot, intentName);
+    if (!intent) return [`intent ${intentName} is not defined by bot ${bot.name}`];
+
+    const { slotEvaluatorArray, slotRules = {} } = Array.isArray(config) ? { slotEvaluatorArray: config } : config;
+    const slotNames = new Set(intent.slots.map((s) => s.name));
+    const issues: string[] = [];
+
+    slotEvaluatorArray.forEach((se) => {
+      if (!slotNames.has(se.slotName)) issues.push(`SlotEvaluator for ${se.slotName}, which the intent does not have`);
+    });
+    Object.keys(slotRules).forEach((slotName) => {
+      if (!slotNames.has(slotName)) issues.push(`SlotRule for ${slotName}, which the intent does not have`);
+    });
+
+    return issues;
+  };
+
+  /**
+   * Converts an exported Intent.
+   *
+   * @param intent
+   */
+  protected static toIntentDefinition = (intent: LexV1ExportIntent): IntentDefinition => {
+    const firstMessage = (prompt?: LexV1ExportPrompt): string | undefined =>
+      prompt && prompt.messages && prompt.messages.length > 0 ? prompt.messages[0].content : undefined;
+    const slots = [...(intent.slots || [])].sort((a, b) => (a.priority ?? Infinity) - (b.priority ?? Infinity));
+
+    return {
+      name: intent.name,
+      slots: slots.map((s) => ({
+        name: s.name,
+        slotType: s.slotType,
+        required: s.slotConstraint === 'Required',
+        prompt: firstMessage(s.valueElicitationPrompt),
+      })),
+      sampleUtterances: intent.sampleUtterances || [],
+      confirmationPrompt: firstMessage(intent.confirmationPrompt),
+      dialogCodeHook: !!intent.dialogCodeHook,
+      fulfillmentCodeHook: !!intent.fulfillmentActivity && intent.fulfillmentActivity.type === 'CodeHook',
+    };
+  };
+}
@@ -0,0 +1,196 @@
+import { LexEvent, LexResult, IntentSummary, LexResultFactory, ResponseMessage } from './lex-hook';
+
+/**
+ * Lex keeps a short history of the Intents of a conversation, the recentIntentSummaryView, which is included in
+ * each LexEvent and may be replaced by a LexResult.  The ConversationContext uses that history to carry Slot
+ * values across Intents, to checkpoint an Intent so that it can be resumed after an interruption, and to return
+ * to the previous Intent after a digression.
+ *
+ *     const context = new ConversationContext(lexEvent);
+ *     context.carrySlots('CheckOrder', ['orderNumber']);
+ *     ...
+ *     return context.returnToPrevious('Now, where were we?') || LexResultFactory.dialogActionClose({ ... });
+ */
+
+/**
+ * The maximum number of IntentSummaries Lex accepts in a LexResult.
+ */
+export const MAX_RECENT_INTENT_SUMMARIES = 3;
+
+export class ConversationContext {
+  protected lexEvent: LexEvent;
+
+  /**
+   * The recentIntentSummaryView, most recent first, including any changes
+   */
+  protected view: IntentSummary[];
+
+  /**
+   * true if the view has been changed, and so must be written back
+   */
+  protected changed = false;
+
+  constructor(lexEvent: LexEvent) {
+    this.lexEvent = lexEvent;
+    this.view = [...(lexEvent.recentIntentSummaryView || [])];
+  }
+
+  /**
+   * Returns the IntentSummaries, most recent first, including any changes.
+   */
+  public getSummaries(): IntentSummary[] {
+    return [...this.view];
+  }
+
+  /**
+   * Returns the most recent IntentSummary of an Intent, or undefined if there is none.
+   *
+   * @param intentName - defaults to the current Intent
+   */
+  public getRecentIntentSummary(intentName: string = this.lexEvent.currentIntent.name): IntentSummary | undefined {
+    return this.view.find((is) => is.intentName === intentName);
+  }
+
+  /**
+   * Returns the most recent IntentSummary of an Intent other than the current one, i.e. the Intent the user
+   * digressed from, or undefined if there is none.  Fulfilled Intents are ignored.
+   */
+  public getPreviousIntentSummary(): IntentSummary | undefined {
+    return this.view.find(
+      (is) => is.intentName !== this.lexEvent.currentIntent.name && is.fulfillmentState !== 'Fulfilled',
+    );
+  }
+
+  /**
+   * Returns the most recent non-null value of a Slot, from the Intents named, or from any Intent.
+   *
+   * @param slotName
+   * @param intentNames
+   */
+  public findSlotValue(slotName: string, intentNames?: string[]): string | undefined {
+    const summary = this.view.find(
+      (is) => (!intentNames || intentNames.includes(is.intentName)) && is.slots && is.slots[slotName] != null,
+    );
+    return summary ? summary.slots[slotName] : undefined;
+  }
+
+  /**
+   * Fills null Slots of the current Intent with the values of Slots of another Intent, e.g. the order number from
+   * CheckOrder into CancelOrder.  Returns the names of the Slots filled.
+   *
+   * @param fromIntentName
+   * @param slots - Slot names, or a map of the current Intent's Slot names to the other Intent's
+   */
+  public carrySlots(fromIntentName: string, slots: string[] | { [slotName: string]: string }): string[] {
+    const mapping: { [slotName: string]: string } = Array.isArray(slots)
+      ? slots.reduce((m, name) => ({ ...m, [name]: name }), {})
+      : slots;
+    const current = this.lexEvent.currentIntent.slots;
+    const filled: string[] = [];
+
+    Object.keys(mapping).forEach((slotName) => {
+      if (current[slotName] != null) return;
+      const value = this.findSlotValue(mapping[slotName], [fromIntentName]);
+      if (value === undefined) return;
+      current[slotName] = value;
+      filled.push(slotName);
+    });
+
+    return filled;
+  }
+
+  /**
+   * Records the state of the current Intent under a checkpoint label, so that it can be resumed later.  By
+   * default, the IntentSummary has the current Slot values, and the dialog action and Slot to elicit of the most
+   * recent IntentSummary of the current Intent; either can be overridden.
+   *
+   * @param checkpointLabel
+   * @param summary - overrides of the IntentSummary recorded
+   */
+  public checkpoint(checkpointLabel: string, summary: Partial<IntentSummary> = {}): IntentSummary {
+    const ci = this.lexEvent.currentIntent;
+    const recent = this.getRecentIntentSummary(ci.name);
+    const checkpoint: IntentSummary = {
+      intentName: ci.name,
+      checkpointLabel,
+      slots: { ...ci.slots },
+      confirmationStatus: ci.confirmationStatus,
+      dialogActionType: recent ? recent.dialogActionType : 'ElicitIntent',
+      fulfillmentState: undefined,
+      slotToElicit: recent ? recent.slotToElicit : undefined,
+      ...summary,
+    };
+
+    this.view = [checkpoint, ...this.view.filter((is) => is.checkpointLabel !== checkpointLabel)];
+    this.changed = true;
+    return checkpoint;
+  }
+
+  /**
+   * Returns the IntentSummary recorded under a checkpoint label, or undefined if there is none.
+   *
+   * @param checkpointLabel
+   */
+  public getCheckpoint(checkpointLabel: string): IntentSummary | undefined {
+    return this.view.find((is) => is.checkpointLabel === checkpointLabel);
+  }
+
+  /**
+   * Returns a LexResult that resumes the Intent of an IntentSummary: its Slot is elicited if it was eliciting one,
+   * otherwise the user is asked to confirm the Intent.  A checkpoint that is resumed is removed.
+   *
+   * @param summary
+   * @param message - optional message, e.g. 'Now, back to your order.  What size?'
+   */
+  public resume(summary: IntentSummary, message?: string | ResponseMessage): LexResult {
+    if (summary.checkpointLabel) {
+      this.view = this.view.filter((is) => is !== summary);
+      this.changed = true;
+    }
+
+    const common = {
+      intentName: summary.intentName,
+      slots: { ...summary.slots },
+      message:
+        typeof message === 'string' ? ({ contentType: 'PlainText', content: message } as ResponseMessage) : message,
+      sessionAttributes: this.lexEvent.sessionAttributes,
+    };
+    const lexResult =
+      summary.dialogActionType === 'ElicitSlot' && summary.slotToElicit
+        ? LexResultFactory.dialogActionElicitSlot({ ...common, slotToElicit: summary.slotToElicit })
+        : LexResultFactory.dialogActionConfirmIntent(common);
+
+    return this.writeBack(lexResult);
+  }
+
+  /**
+   * Returns a LexResult that resumes the Intent recorded under a checkpoint label, or undefined if there is none.
+   *
+   * @param checkpointLabel
+   * @param message
+   */
+  public resumeCheckpoint(checkpointLabel: string, message?: string | ResponseMessage): LexResult | undefined {
+    const checkpoint = this.getCheckpoint(checkpointLabel);
+    return checkpoint ? this.resume(checkpoint, message) : undefined;
+  }
+
+  /**
+   * Returns a LexResult that returns to the Intent the user digressed from, or undefined if there is none.
+   *
+   * @param message
+   */
+  public returnToPrevious(message?: string | ResponseMessage): LexResult | undefined {
+    const previous = this.getPreviousIntentSummary();
+    return previous ? this.resume(previous, message) : undefined;
+  }
+
+  /**
+   * Copies the recentIntentSummaryView into a LexResult, if it has been changed.
+   *
+   * @param lexResult
+   */
+  public writeBack(lexResult: LexResult): LexResult {
+    if (this.changed) lexResult.recentIntentSummaryView = this.view.slice(0, MAX_RECENT_INTENT_SUMMARIES);
+    return lexResult;
+  }
+}
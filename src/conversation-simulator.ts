@@ -0,0 +1,390 @@
+import { Context } from 'aws-lambda';
+import { LexEvent, LexResult, LexEventHandler, IntentSummary, LexResultFactory, RouteOptions, route } from './lex-hook';
+import { BotDefinition, BotDefinitions, IntentDefinition } from './bot-definition';
+import { LexHookError } from './errors';
+
+/**
+ * The ConversationSimulator plays a conversation through code hooks locally, turn by turn, the way Lex would:
+ * the user's answer fills the Slot being elicited, session attributes and the recentIntentSummaryView are carried
+ * from one LexResult to the next LexEvent, and a Delegate result causes Lex either to elicit the next empty
+ * required Slot, to ask for confirmation, or to invoke the fulfillment code hook.
+ *
+ * Natural language understanding is not simulated: the first turn of each Intent names the Intent, and a turn may
+ * specify Slot values directly.
+ *
+ *     const sim = new ConversationSimulator({ bot, handler: orderFlowersHandler });
+ *     await sim.say('I would like to order flowers', { intent: 'OrderFlowers' });
+ *     const turn = await sim.say('roses');
+ *     expect(turn.slotToElicit).toBe('PickupDate');
+ */
+
+export interface ConversationSimulatorConfig {
+  bot: BotDefinition;
+  /**
+   * The LexEventHandler that code hook events are routed to, or a function that accepts them, e.g. the route
+   * property of an IntentRouter.
+   */
+  handler: LexEventHandler | ((lexEvent: LexEvent, ctx: Context) => Promise<LexResult>);
+  /**
+   * Defaults to 'simulated-user'.
+   */
+  userId?: string;
+  /**
+   * Session attributes at the start of the conversation.
+   */
+  sessionAttributes?: { [key: string]: string };
+  /**
+   * Passed to the route function when handler is a LexEventHandler.
+   */
+  routeOptions?: RouteOptions;
+}
+
+/**
+ * What the user says in a turn.
+ */
+export interface UserTurn {
+  utterance: string;
+  /**
+   * The Intent the utterance expresses.  Required for the first turn of an Intent; defaults to the active Intent.
+   */
+  intent?: string;
+  /**
+   * Slot values filled by the utterance, in addition to the Slot being elicited.
+   */
+  slots?: { [name: string]: string | null };
+}
+
+/**
+ * One LexResult within a turn, and the LexEvent that produced it.  Results produced by the simulated Lex itself,
+ * e.g. eliciting the next Slot after a Delegate, have no event.
+ */
+export interface SimulatedStep {
+  source: 'DialogCodeHook' | 'FulfillmentCodeHook' | 'Lex';
+  event?: LexEvent;
+  result: LexResult;
+}
+
+export interface SimulatedTurn {
+  utterance: string;
+  steps: SimulatedStep[];
+  /**
+   * The last LexResult of the turn, i.e. the one the user sees.
+   */
+  result: LexResult;
+  dialogActionType: LexResult['dialogAction']['type'];
+  /**
+   * The Slot being elicited, if the last dialog action is ElicitSlot.
+   */
+  slotToElicit?: string;
+  /**
+   * The content of the message of the last dialog action, if any.
+   */
+  message?: string;
+}
+
+const MAX_STEPS_PER_TURN = 10;
+const MAX_RECENT_INTENT_SUMMARIES = 3;
+
+export class ConversationSimulator {
+  protected config: ConversationSimulatorConfig;
+  protected sessionAttributes: { [key: string]: string };
+  protected recentIntentSummaryView: IntentSummary[] = [];
+  protected activeIntent: IntentDefinition = null;
+  protected slots: { [name: string]: string | null } = {};
+  protected slotDetails: LexEvent['currentIntent']['slotDetails'] = {};
+  protected confirmationStatus: 'None' | 'Confirmed' | 'Denied' = 'None';
+  protected lastResult: LexResult = null;
+
+  /**
+   * Every turn played so far.
+   */
+  public transcript: SimulatedTurn[] = [];
+
+  constructor(config: ConversationSimulatorConfig) {
+    this.config = config;
+    this.sessionAttributes = { ...(config.sessionAttributes || {}) };
+  }
+
+  /**
+   * Plays one turn of the conversation.
+   *
+   * @param utterance
+   * @param turn - the Intent and Slot values expressed by the utterance
+   */
+  public async say(utterance: string, turn: Omit<UserTurn, 'utterance'> = {}): Promise<SimulatedTurn> {
+    const switching = turn.intent && (!this.activeIntent || turn.intent !== this.activeIntent.name);
+    if (switching) this.startIntent(turn.intent);
+    if (!this.activeIntent) throw new LexHookError(`no active Intent: specify the Intent of '${utterance}'`);
+
+    // a Slot elicited, or a confirmation asked, for the previous Intent is not answered by this utterance
+    const lastAction = this.lastResult && !switching ? this.lastResult.dialogAction : null;
+
+    if (lastAction && lastAction.type === 'ElicitSlot' && !(turn.slots && lastAction.slotToElicit in turn.slots)) {
+      this.fillSlot(lastAction.slotToElicit, utterance);
+    }
+    Object.keys(turn.slots || {}).forEach((slotName) => this.fillSlot(slotName, turn.slots[slotName]));
+
+    if (lastAction && lastAction.type === 'ConfirmIntent') {
+      if (/^\s*(yes|yeah|yep|sure|ok|okay|y)\b/i.test(utterance)) this.confirmationStatus = 'Confirmed';
+      else if (/^\s*(no|nope|n)\b/i.test(utterance)) this.confirmationStatus = 'Denied';
+    }
+
+    const steps: SimulatedStep[] = [];
+    let step: SimulatedStep =
+      this.activeIntent.dialogCodeHook === false
+        ? this.lexStep(LexResultFactory.dialogActionDelegate({ slots: this.slots }))
+        : await this.invoke('DialogCodeHook', utterance);
+
+    while (step) {
+      steps.push(step);
+      if (steps.length > MAX_STEPS_PER_TURN) throw new LexHookError('too many steps in one turn');
+      step = await this.apply(step.result, utterance);
+    }
+
+    const result = steps[steps.length - 1].result;
+    const da = result.dialogAction;
+    const simulatedTurn: SimulatedTurn = {
+      utterance,
+      steps,
+      result,
+      dialogActionType: da.type,
+      slotToElicit: da.type === 'ElicitSlot' ? da.slotToElicit : undefined,
+      message: da.type !== 'Delegate' && da.message ? da.message.content : undefined,
+    };
+    this.transcript.push(simulatedTurn);
+
+    return simulatedTurn;
+  }
+
+  /**
+   * Plays several turns of the conversation, in order.
+   *
+   * @param script
+   */
+  public async play(script: UserTurn[]): Promise<SimulatedTurn[]> {
+    const turns: SimulatedTurn[] = [];
+    for (const turn of script) {
+      turns.push(await this.say(turn.utterance, turn));
+    }
+    return turns;
+  }
+
+  /**
+   * The session attributes as they will be sent in the next LexEvent.
+   */
+  public getSessionAttributes(): { [key: string]: string } {
+    return { ...this.sessionAttributes };
+  }
+
+  /**
+   * The Slot values of the active Intent.
+   */
+  public getSlots(): { [name: string]: string | null } {
+    return { ...this.slots };
+  }
+
+  /**
+   * The name of the active Intent, or null if there is none.
+   */
+  public getActiveIntentName(): string | null {
+    return this.activeIntent ? this.activeIntent.name : null;
+  }
+
+  /**
+   * Updates the state of the conversation from a LexResult, and returns the next step Lex would take within the
+   * same turn, or null if the turn is over.
+   *
+   * @param lexResult
+   * @param utterance
+   */
+  protected async apply(lexResult: LexResult, utterance: string): Promise<SimulatedStep | null> {
+    const da = lexResult.dialogAction;
+    this.lastResult = lexResult;
+
+    switch (da.type) {
+      case 'ElicitSlot':
+      case 'ConfirmIntent':
+        if (da.intentName !== this.activeIntent.name) this.startIntent(da.intentName);
+        this.slots = { ...this.slots, ...da.slots };
+        if (da.type === 'ConfirmIntent') this.confirmationStatus = 'None';
+        this.summarize(da.type, undefined, da.type === 'ElicitSlot' ? da.slotToElicit : undefined);
+        return null;
+      case 'ElicitIntent':
+        this.summarize(da.type);
+        this.activeIntent = null;
+        return null;
+      case 'Close':
+        this.summarize(da.type, da.fulfillmentState);
+        this.activeIntent = null;
+        return null;
+      case 'Delegate':
+        this.slots = { ...this.slots, ...da.slots };
+        return this.delegate(utterance);
+    }
+  }
+
+  /**
+   * Does what Lex does with a Delegate dialog action.
+   *
+   * @param utterance
+   */
+  protected async delegate(utterance: string): Promise<SimulatedStep> {
+    const intent = this.activeIntent;
+    const missing = intent.slots.find((s) => s.required !== false && !this.slots[s.name]);
+
+    if (missing) {
+      return this.lexStep(
+        LexResultFactory.dialogActionElicitSlot({
+          intentName: intent.name,
+          slotToElicit: missing.name,
+          slots: this.slots,
+          message: { contentType: 'PlainText', content: missing.prompt || `${missing.name}?` },
+          sessionAttributes: this.sessionAttributes,
+        }),
+      );
+    }
+
+    if (intent.confirmationPrompt && this.confirmationStatus === 'None') {
+      return this.lexStep(
+        LexResultFactory.dialogActionConfirmIntent({
+          intentName: intent.name,
+          slots: this.slots,
+          message: { contentType: 'PlainText', content: intent.confirmationPrompt },
+          sessionAttributes: this.sessionAttributes,
+        }),
+      );
+    }
+
+    if (this.confirmationStatus === 'Denied') {
+      return this.lexStep(
+        LexResultFactory.dialogActionClose({ fulfillmentState: 'Failed', sessionAttributes: this.sessionAttributes }),
+      );
+    }
+
+    if (intent.fulfillmentCodeHook === false) {
+      return this.lexStep(
+        LexResultFactory.dialogActionClose({
+          fulfillmentState: 'Fulfilled',
+          sessionAttributes: this.sessionAttributes,
+        }),
+      );
+    }
+
+    return this.invoke('FulfillmentCodeHook', utterance);
+  }
+
+  /**
+   * Sends a LexEvent to the handler.
+   *
+   * @param invocationSource
+   * @param utterance
+   */
+  protected async invoke(invocationSource: LexEvent['invocationSource'], utterance: string): Promise<SimulatedStep> {
+    const event = this.createLexEvent(invocationSource, utterance);
+    const handler = this.config.handler;
+    const sent: LexEvent = JSON.parse(JSON.stringify(event));
+    const result: LexResult =
+      typeof handler === 'function'
+        ? await handler(sent, null)
+        : await route(sent, null, handler, this.config.routeOptions);
+
+    // as with Lex, a result without sessionAttributes keeps the session
+    if (result.sessionAttributes !== undefined) this.sessionAttributes = { ...result.sessionAttributes };
+    if (result.recentIntentSummaryView) this.recentIntentSummaryView = [...result.recentIntentSummaryView];
+
+    return { source: invocationSource, event, result };
+  }
+
+  protected lexStep(result: LexResult): SimulatedStep {
+    return { source: 'Lex', result };
+  }
+
+  protected createLexEvent(invocationSource: LexEvent['invocationSource'], utterance: string): LexEvent {
+    return {
+      currentIntent: {
+        name: this.activeIntent.name,
+        slots: { ...this.slots },
+        slotDetails: JSON.parse(JSON.stringify(this.slotDetails)),
+        confirmationStatus: this.confirmationStatus,
+      },
+      bot: {
+        name: this.config.bot.name,
+        alias: this.config.bot.alias || '$LATEST',
+        version: this.config.bot.version || '$LATEST',
+      },
+      userId: this.config.userId || 'simulated-user',
+      inputTranscript: utterance,
+      invocationSource,
+      outputDialogMode: 'Text',
+      messageVersion: '1.0',
+      sessionAttributes: { ...this.sessionAttributes },
+      requestAttributes: null,
+      recentIntentSummaryView: this.recentIntentSummaryView.length > 0 ? [...this.recentIntentSummaryView] : null,
+      sentimentResponse: null,
+      kendraResponse: null,
+    };
+  }
+
+  /**
+   * Makes an Intent active, with every Slot empty.
+   *
+   * @param intentName
+   */
+  protected startIntent(intentName: string): void {
+    const intent = BotDefinitions.getIntent(this.config.bot, intentName);
+    if (!intent) throw new LexHookError(`Intent ${intentName} is not defined by Bot ${this.config.bot.name}`);
+
+    this.activeIntent = intent;
+    this.slots = {};
+    this.slotDetails = {};
+    this.confirmationStatus = 'None';
+    intent.slots.forEach((s) => (this.slots[s.name] = null));
+  }
+
+  /**
+   * Fills a Slot the way Lex would: values of custom Slot types are resolved via their synonyms.
+   *
+   * @param slotName
+   * @param text
+   */
+  protected fillSlot(slotName: string, text: string | null): void {
+    if (text === null || text === undefined) {
+      this.slots[slotName] = null;
+      delete this.slotDetails[slotName];
+      return;
+    }
+
+    const slot = this.activeIntent.slots.find((s) => s.name === slotName);
+    const slotType = slot ? BotDefinitions.getSlotType(this.config.bot, slot.slotType) : undefined;
+    const resolved = slotType ? BotDefinitions.resolveSlotTypeValue(slotType, text) : undefined;
+
+    this.slots[slotName] = resolved ?? text;
+    this.slotDetails[slotName] = { resolutions: resolved ? [{ value: resolved }] : [], originalValue: text };
+  }
+
+  /**
+   * Records the state of the active Intent in the recentIntentSummaryView, most recent first.
+   */
+  protected summarize(
+    dialogActionType: IntentSummary['dialogActionType'],
+    fulfillmentState?: IntentSummary['fulfillmentState'],
+    slotToElicit?: string,
+  ): void {
+    if (!this.activeIntent) return;
+
+    const summary: IntentSummary = {
+      intentName: this.activeIntent.name,
+      checkpointLabel: undefined,
+      slots: { ...this.slots },
+      confirmationStatus: this.confirmationStatus,
+      dialogActionType,
+      fulfillmentState,
+      slotToElicit,
+    };
+
+    this.recentIntentSummaryView = [
+      summary,
+      ...this.recentIntentSummaryView.filter((is) => is.intentName !== summary.intentName || is.checkpointLabel),
+    ].slice(0, MAX_RECENT_INTENT_SUMMARIES);
+  }
+}
@@ -1,5 +1,11 @@
 import { LexSlotResolution } from 'aws-lambda';
-import { LexEvent, LexResult, EventHandler, IntentSummary, LexResultFactory, Util } from './lex-hook';
+import { LexEvent, LexResult, EventHandler, IntentSummary, LexResultFactory, ResponseCard, Util } from './lex-hook';
+import { LexHookError, SlotDependencyCycleError, SlotEvaluationError } from './errors';
+import { Logger, getDefaultLogger } from './logger';
+import { ResponseCardBuilder, ResponseCardLimits } from './response-builder';
+import { MessageCatalog } from './message-catalog';
+import { SentimentPolicy } from './sentiment';
+import { ConversationContext } from './conversation-context';
 
 /**
  * This library includes a DefaultDialogEventHandler that can be used to handle Dialog Lex events if desired.  This
@@ -8,43 +14,192 @@ import { LexEvent, LexResult, EventHandler, IntentSummary, LexResultFactory, Uti
 
 /**
  * Clients using the DefaultDialogEventHandler use an implementation of this interface to configure event handling.
+ * S is optionally the union of the Slot names of the Intent, so that SlotEvaluators, SlotRules and
+ * IntentValidators can only name Slots the Intent has.
  */
-export interface DialogEventHandlerConfig {
+export interface DialogEventHandlerConfig<S extends string = string> {
   /**
    * List of SlotEvaluators ... one for each Slot.
    */
-  slotEvaluatorArray: SlotEvaluator[];
+  slotEvaluatorArray: SlotEvaluator<S>[];
   /**
    * An optional hook function invoked after a Slot is evaluated.  The function is invoked whether the Slot
-   * value is valid or not.
+   * value is valid or not.  If it returns a Promise, the Promise is awaited before the next Slot is evaluated.
    */
-  slotEvaluationHook?: (lexEvent: LexEvent, slotEvaluator: SlotEvaluator, slotEvalResult: SlotEvaluationResult) => void;
+  slotEvaluationHook?: (
+    lexEvent: LexEvent<S>,
+    slotEvaluator: SlotEvaluator<S>,
+    slotEvalResult: SlotEvaluationResult,
+  ) => void | Promise<void>;
   /**
-   * Optional hook function invoked when all Slot values are determined to be valid.
+   * Optional hook function invoked when all Slot values are determined to be valid.  May return a Promise.
    */
-  allSlotsValidHook?: (lexEvent: LexEvent) => void;
+  allSlotsValidHook?: (lexEvent: LexEvent<S>) => void | Promise<void>;
   /**
    * An optional function.  If specified, will be used to generate an appropriate Lex result when an invalid
    * Slot value is found.  If not specified, the DefaultDialogEventHandler will return an ElicitSlot dialog action
    * message.
    */
   invalidSlotResponder?: (
-    lexEvent: LexEvent,
-    slotEvaluator: SlotEvaluator,
+    lexEvent: LexEvent<S>,
+    slotEvaluator: SlotEvaluator<S>,
     slotEvalResult: SlotEvaluationResult,
-  ) => LexResult;
+  ) => LexResult | Promise<LexResult>;
   /**
    * An optional function.  If specified, will be used to generate an appropriate Lex result when all Slot values
    * are assessed as valid.  If not specified, the DefaultDialogEventHandler will return a Delegate dialog
    * action message.
    */
-  allSlotsValidResponder?: (lexEvent: LexEvent) => LexResult;
+  allSlotsValidResponder?: (lexEvent: LexEvent<S>) => LexResult | Promise<LexResult>;
+  /**
+   * Optional number of milliseconds a SlotEvaluator is given to complete evaluation.  Applies to every
+   * SlotEvaluator that does not specify its own timeout.  If neither is specified, there is no timeout.
+   */
+  slotEvaluationTimeout?: number;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when a SlotEvaluator
+   * throws, rejects or times out.  If not specified, the SlotEvaluationError is thrown from handle, and so the
+   * route function will close the conversation with fulfillment state = Failed.
+   */
+  slotEvaluationErrorResponder?: (
+    lexEvent: LexEvent<S>,
+    slotEvaluator: SlotEvaluator<S>,
+    error: SlotEvaluationError,
+  ) => LexResult | Promise<LexResult>;
+  /**
+   * The Logger used by the DefaultDialogEventHandler.  If not specified, the default Logger is used.
+   */
+  logger?: Logger;
+  /**
+   * Optional configuration of a confirmation phase.  If specified, the user is asked to confirm the Intent once
+   * all Slot values are valid, and the allSlotsValidResponder is used only once the Intent is confirmed.
+   */
+  confirmation?: ConfirmationConfig;
+  /**
+   * If specified, SlotEvaluator prompt messages and the confirmation prompt message are treated as keys of this
+   * catalog, and resolved in the locale of the conversation.  Messages that are not keys are used as templates.
+   * In prompt messages, {value} is replaced by the invalid Slot value.
+   */
+  messageCatalog?: MessageCatalog;
+  /**
+   * Optional rules, keyed by Slot name, that make Slots conditional or optional, or make them depend upon other
+   * Slots.  Slots are evaluated in the order of slotEvaluatorArray, except that a Slot is always evaluated after
+   * the Slots it depends upon.
+   */
+  slotRules?: { [slotName in S]?: SlotRule<S> };
+  /**
+   * Optional validators of the Intent as a whole, e.g. 'return date must be after pickup date'.  They are invoked
+   * in order once every Slot has been evaluated as valid, and the first failure is handled like an invalid Slot
+   * value: the Slot it names is cleared and the invalidSlotResponder (or its default) is used.
+   */
+  intentValidators?: IntentValidator<S>[];
+  /**
+   * Optional limit on the number of times a Slot may be found invalid, with escalating prompts.  Applies to every
+   * SlotEvaluator that does not specify its own retryPolicy.  If neither is specified, invalid Slots are
+   * re-elicited indefinitely.
+   */
+  retryPolicy?: RetryPolicy;
+  /**
+   * If specified, the sentiment of each turn is recorded, and the handler reacts to negative turns as the policy
+   * says: escalating before any Slot is evaluated, softening re-elicit prompts, and skipping optional Slots.
+   */
+  sentimentPolicy?: SentimentPolicy;
 }
 
 /**
- * Implementations of this interface parameterize Slot evaluation by the DefaultDialogEventHandler.
+ * Limits how many times the DefaultDialogEventHandler re-elicits a Slot that keeps failing validation.  Attempts
+ * are counted per Intent and Slot in session attributes, and reset once all Slots of the Intent are valid.
  */
-export interface SlotEvaluator {
+export interface RetryPolicy {
+  /**
+   * The number of invalid answers after which the maxAttemptsResponder is used instead of re-eliciting the Slot.
+   * A Slot that the user has not yet been asked for, and has no value, does not count as an attempt.
+   */
+  maxAttempts: number;
+  /**
+   * Optional prompt messages used, in order, to re-elicit the Slot on the second and subsequent attempts, e.g.
+   * with a more explicit hint.  The last is repeated if there are more attempts than prompts.
+   */
+  escalatingPrompts?: string[];
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when a Slot is found
+   * invalid maxAttempts times.  If not specified, the DefaultDialogEventHandler will return a Close dialog action
+   * message with fulfillment state = Failed.  See MaxAttemptsResponders for alternatives.
+   */
+  maxAttemptsResponder?: (
+    lexEvent: LexEvent,
+    slotEvaluator: SlotEvaluator,
+    slotEvalResult: SlotEvaluationResult,
+  ) => LexResult | Promise<LexResult>;
+}
+
+/**
+ * Identifies the Slot to re-elicit when an IntentValidator fails, and optionally the message to elicit it with.
+ * Without a message, the prompt message of the Slot's SlotEvaluator is used.
+ */
+export interface IntentValidationFailure<S extends string = string> {
+  slotName: S;
+  message?: string;
+}
+
+/**
+ * Inspects all Slot values of the current Intent, returning a failure if they are invalid in combination, or
+ * nothing if they are valid.  May return a Promise.
+ */
+export type IntentValidator<S extends string = string> = (
+  lexEvent: LexEvent<S>,
+) => IntentValidationFailure<S> | undefined | Promise<IntentValidationFailure<S> | undefined>;
+
+/**
+ * Declares when, and in what order, the DefaultDialogEventHandler evaluates a Slot.  Predicates may return a
+ * Promise.
+ */
+export interface SlotRule<S extends string = string> {
+  /**
+   * Slots that must be evaluated before this one, e.g. because its valid values depend upon theirs.
+   */
+  dependsOn?: S[];
+  /**
+   * If specified, the Slot is required only when this returns true, e.g.
+   * (lexEvent) => lexEvent.currentIntent.slots.deliveryMethod === 'delivery'.  Otherwise, it is optional.
+   */
+  requiredWhen?: (lexEvent: LexEvent<S>) => boolean | Promise<boolean>;
+  /**
+   * If specified, the Slot is not evaluated when this returns true, and any value it has is cleared.
+   */
+  skipWhen?: (lexEvent: LexEvent<S>) => boolean | Promise<boolean>;
+  /**
+   * If true, the Slot is not elicited when it has no value.  A value it does have is still evaluated.
+   */
+  optional?: boolean;
+}
+
+/**
+ * Configures how the DefaultDialogEventHandler asks for, and reacts to, confirmation of an Intent.
+ */
+export interface ConfirmationConfig {
+  /**
+   * The message included in the ConfirmIntent LexResult, e.g. 'Shall I place your order?'
+   */
+  promptMessage: string;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when the user
+   * confirms the Intent.  If not specified, the allSlotsValidResponder (or its default) is used.
+   */
+  confirmedResponder?: (lexEvent: LexEvent) => LexResult | Promise<LexResult>;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when the user
+   * denies the Intent.  If not specified, the DefaultDialogEventHandler will return a Close dialog action
+   * message with fulfillment state = Failed.  See ConfirmationResponders for alternatives.
+   */
+  deniedResponder?: (lexEvent: LexEvent) => LexResult | Promise<LexResult>;
+}
+
+/**
+ * Implementations of this interface parameterize Slot evaluation by the DefaultDialogEventHandler.  S is the name
+ * of the Slot, inferred from the Slot name given to the constructors of the SlotEvaluators of this library.
+ */
+export interface SlotEvaluator<S extends string = string> {
   /**
    * If the evaluate function determines the Slot value is invalid, this message will be included
    * in the default ElicitSlot LexResult.
@@ -53,16 +208,31 @@ export interface SlotEvaluator {
   /**
    * The Slot name with which this evaluator is associated
    */
-  slotName: string;
+  slotName: S;
   /**
    * A function that evaluates whether the Slot value or originalValue/resolutions are valid.
-   * In general, implementations are free to decide what evaluate means.
+   * In general, implementations are free to decide what evaluate means, and may return a Promise
+   * when evaluation requires a lookup, e.g. against DynamoDB.
+   */
+  evaluate: (lexEvent: LexEvent) => SlotEvaluationResult | Promise<SlotEvaluationResult>;
+  /**
+   * A function that returns an assessment of validity.  May return a Promise.
+   */
+  isValid: (param: EvaluatableSlotValue) => SlotValidationAssessment | Promise<SlotValidationAssessment>;
+  /**
+   * Optional number of milliseconds evaluate is given to complete.  Overrides the
+   * slotEvaluationTimeout of DialogEventHandlerConfig.
+   */
+  timeout?: number;
+  /**
+   * Optional RetryPolicy for this Slot.  Overrides the retryPolicy of DialogEventHandlerConfig.
    */
-  evaluate: (lexEvent: LexEvent) => SlotEvaluationResult;
+  retryPolicy?: RetryPolicy;
   /**
-   * A function that returns an assessment of validity.
+   * An optional function.  If specified, the response card it returns is included in the default ElicitSlot
+   * LexResult, e.g. to offer the valid Slot values as buttons.
    */
-  isValid: (param: EvaluatableSlotValue) => SlotValidationAssessment;
+  getResponseCard?: (lexEvent: LexEvent) => ResponseCard | undefined;
 }
 
 /**
@@ -97,6 +267,14 @@ export class SlotEvaluationResult {
    * what is determined by Lex itself, that value can be specified here.
    */
   newSlots?: { [name: string]: string };
+  /**
+   * If specified, the message with which the Slot is re-elicited, rather than the SlotEvaluator's prompt message.
+   */
+  message?: string;
+  /**
+   * The number of times the Slot has been found invalid, when a RetryPolicy applies.
+   */
+  attempts?: number;
 
   constructor(v: SlotValidationAssessment, s: EvaluatableSlotValue, n?: { [name: string]: string }) {
     this.valid = v;
@@ -120,7 +298,7 @@ export class SlotEvaluationResult {
  * dialog action).
  *
  */
-export class DefaultDialogEventHandler implements EventHandler {
+export class DefaultDialogEventHandler<S extends string = string> implements EventHandler<S> {
   /**
    * map SlotEvaluator instances to slot name to make it easier to cycle thru the slots
    */
@@ -131,6 +309,11 @@ export class DefaultDialogEventHandler implements EventHandler {
    */
   protected slotNameArray: string[] = [];
 
+  /**
+   * the configured SlotRules, keyed by Slot name
+   */
+  protected slotRules: Map<string, SlotRule> = new Map();
+
   /**
    * configuration which parameterizes dialog handling by this class.
    */
@@ -148,11 +331,19 @@ export class DefaultDialogEventHandler implements EventHandler {
     slotEvaluator: SlotEvaluator,
     slotEvalResult: SlotEvaluationResult,
   ): LexResult => {
+    const content = this.formatMessage(lexEvent, slotEvalResult.message ?? slotEvaluator.promptMessage, {
+      value: slotEvalResult.slotValue ? slotEvalResult.slotValue.value : undefined,
+    });
+
     return LexResultFactory.dialogActionElicitSlot({
       intentName: lexEvent.currentIntent.name,
       slotToElicit: slotEvaluator.slotName,
       slots: lexEvent.currentIntent.slots,
-      message: { content: slotEvaluator.promptMessage, contentType: 'PlainText' },
+      message: {
+        content: this.config.sentimentPolicy ? this.config.sentimentPolicy.softenPrompt(content, lexEvent) : content,
+        contentType: 'PlainText',
+      },
+      responseCard: slotEvaluator.getResponseCard ? slotEvaluator.getResponseCard(lexEvent) : undefined,
       sessionAttributes: lexEvent.sessionAttributes,
     });
   };
@@ -169,7 +360,48 @@ export class DefaultDialogEventHandler implements EventHandler {
     });
   };
 
-  constructor(config: DialogEventHandlerConfig) {
+  /**
+   * Ask the user to confirm the Intent, with the configured prompt message.
+   *
+   * @param lexEvent
+   */
+  protected defaultConfirmationResponder = (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionConfirmIntent({
+      intentName: lexEvent.currentIntent.name,
+      slots: lexEvent.currentIntent.slots,
+      message: {
+        content: this.formatMessage(lexEvent, this.config.confirmation.promptMessage),
+        contentType: 'PlainText',
+      },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  /**
+   * Close the conversation by default when the user denies the Intent.
+   *
+   * @param lexEvent
+   */
+  protected defaultDeniedResponder = (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  /**
+   * Close the conversation by default when a Slot is found invalid too many times.
+   *
+   * @param lexEvent
+   */
+  protected defaultMaxAttemptsResponder = (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  constructor(config: DialogEventHandlerConfig<S>) {
     /**
      * just reading this config
      */
@@ -183,8 +415,14 @@ export class DefaultDialogEventHandler implements EventHandler {
     this.slotEvaluatorMap = {};
     this.config.slotEvaluatorArray.forEach((se) => {
       this.slotEvaluatorMap[se.slotName] = se;
-      this.slotNameArray.push(se.slotName);
     });
+    Object.keys(this.config.slotRules || {}).forEach((slotName) => {
+      this.slotRules.set(slotName, this.config.slotRules[slotName]);
+    });
+    /**
+     * order the Slots so that each is evaluated after the Slots it depends upon
+     */
+    this.slotNameArray = this.orderSlots(this.config.slotEvaluatorArray.map((se) => se.slotName));
   }
 
   /**
@@ -192,40 +430,283 @@ export class DefaultDialogEventHandler implements EventHandler {
    * SlotEvalator.  An appropriate LexResult is returned to signify either a Slot value
    * was determined to be invalid, or all Slot values are valid.
    *
+   * SlotEvaluators and hook functions that return Promises are awaited in Slot order.
+   *
    * @param lexEvent
    */
-  public handle(lexEvent: LexEvent): Promise<LexResult> {
+  public async handle(lexEvent: LexEvent<S>): Promise<LexResult> {
+    //
+    // if the user is unhappy enough, then escalate rather than continue
+    if (this.config.sentimentPolicy) {
+      const policy: SentimentPolicy = this.config.sentimentPolicy;
+      const assessment = policy.record(lexEvent);
+      const escalation = assessment.escalate ? await policy.escalate(lexEvent, assessment) : undefined;
+      if (escalation) return escalation;
+    }
+
     //
     // iterate over the slot keys ... each key is a slot name ... in desired order
     for (const slotName of this.slotNameArray) {
+      //
+      // ... skip the slot if its rules say it need not be evaluated
+      if (!(await this.shouldEvaluateSlot(lexEvent, slotName))) continue;
+
       const slotEvaluator: SlotEvaluator = this.getSlotEvaluator(slotName);
       //
       // ... evaluate
-      const se: SlotEvaluationResult = slotEvaluator.evaluate(lexEvent);
+      let se: SlotEvaluationResult;
+      try {
+        se = await this.evaluateSlot(lexEvent, slotEvaluator);
+      } catch (e) {
+        if (!(e instanceof SlotEvaluationError) || !this.config.slotEvaluationErrorResponder) throw e;
+        return this.config.slotEvaluationErrorResponder(lexEvent, slotEvaluator, e);
+      }
+      //
+      // ... replace slot values as the evaluator determined, e.g. with a resolved or canonical value
+      if (se.newSlots) Object.assign(lexEvent.currentIntent.slots, se.newSlots);
+
       //
       // if there's a slot evaluation hook, then invoke it
-      if (this.config.slotEvaluationHook) this.config.slotEvaluationHook(lexEvent, slotEvaluator, se);
+      if (this.config.slotEvaluationHook) await this.config.slotEvaluationHook(lexEvent, slotEvaluator, se);
 
       //
       // ... if invalid, then return
       if (se.valid === SlotValidationAssessment.INVALID) {
         lexEvent.currentIntent.slots[slotName] = null;
-        if (this.config.invalidSlotResponder)
-          return Promise.resolve(this.config.invalidSlotResponder(lexEvent, slotEvaluator, se));
-
-        return Promise.resolve(this.defaultInvalidSlotResponder(lexEvent, slotEvaluator, se));
+        return this.respondToInvalidSlot(lexEvent, slotEvaluator, se);
       }
     }
 
+    //
+    // validate the slots in combination
+    const failed = await this.validateIntent(lexEvent);
+    if (failed) return failed;
+
+    //
+    // the intent is valid, so any retry attempts start over
+    this.resetAttempts(lexEvent);
+
     //
     // if there's a hook, invoke it.
-    if (this.config.allSlotsValidHook) this.config.allSlotsValidHook(lexEvent);
+    if (this.config.allSlotsValidHook) await this.config.allSlotsValidHook(lexEvent);
+
+    //
+    // if confirmation is configured, then it must be given before delegating
+    if (this.config.confirmation) return this.handleConfirmation(lexEvent);
 
     //
     // if all slots are valid, then delegate back to Lex
-    if (this.config.allSlotsValidResponder) return Promise.resolve(this.config.allSlotsValidResponder(lexEvent));
+    if (this.config.allSlotsValidResponder) return this.config.allSlotsValidResponder(lexEvent);
+
+    return this.defaultAllSlotsValidResponder(lexEvent);
+  }
+
+  /**
+   * Responds to an invalid Slot value, applying the RetryPolicy, if any.  Each answer is counted as an attempt;
+   * the last one allowed is answered by the maxAttemptsResponder, and the others re-elicit the Slot, with an
+   * escalating prompt from the second attempt on.
+   *
+   * @param lexEvent
+   * @param slotEvaluator
+   * @param se
+   */
+  protected async respondToInvalidSlot(
+    lexEvent: LexEvent,
+    slotEvaluator: SlotEvaluator,
+    se: SlotEvaluationResult,
+  ): Promise<LexResult> {
+    const retryPolicy: RetryPolicy = slotEvaluator.retryPolicy || this.config.retryPolicy;
+
+    if (retryPolicy && this.isAnswer(slotEvaluator.slotName, se)) {
+      const key = this.getAttemptsKey(lexEvent, slotEvaluator.slotName);
+      lexEvent.sessionAttributes = lexEvent.sessionAttributes || {};
+      se.attempts = Number(lexEvent.sessionAttributes[key] || 0) + 1;
+
+      if (se.attempts >= retryPolicy.maxAttempts) {
+        this.getLogger().info(`::handle(..) .. ${slotEvaluator.slotName} invalid after ${se.attempts} attempts`);
+        delete lexEvent.sessionAttributes[key];
+        if (retryPolicy.maxAttemptsResponder) return retryPolicy.maxAttemptsResponder(lexEvent, slotEvaluator, se);
+        return this.defaultMaxAttemptsResponder(lexEvent);
+      }
+
+      lexEvent.sessionAttributes[key] = String(se.attempts);
+      const prompts = retryPolicy.escalatingPrompts || [];
+      if (se.attempts > 1 && prompts.length > 0 && se.message === undefined) {
+        se.message = prompts[Math.min(se.attempts - 2, prompts.length - 1)];
+      }
+    }
+
+    if (this.config.invalidSlotResponder) return this.config.invalidSlotResponder(lexEvent, slotEvaluator, se);
+
+    return this.defaultInvalidSlotResponder(lexEvent, slotEvaluator, se);
+  }
+
+  /**
+   * Did the user answer for the Slot, i.e. does it have a value, or was it the Slot being elicited?
+   *
+   * @param slotName
+   * @param se
+   */
+  protected isAnswer(slotName: string, se: SlotEvaluationResult): boolean {
+    const sv = se.slotValue;
+    if (!sv) return false;
+    return sv.value != null || (sv.details && sv.details.originalValue != null) || sv.elicitedSlotName === slotName;
+  }
+
+  /**
+   * Removes the attempt counts of the current Intent from the session attributes.
+   *
+   * @param lexEvent
+   */
+  protected resetAttempts(lexEvent: LexEvent): void {
+    if (!lexEvent.sessionAttributes) return;
+
+    const prefix = this.getAttemptsKey(lexEvent, '');
+    Object.keys(lexEvent.sessionAttributes)
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => delete lexEvent.sessionAttributes[key]);
+  }
+
+  /**
+   * Returns the session attribute in which attempts of a Slot of the current Intent are counted.
+   *
+   * @param lexEvent
+   * @param slotName
+   */
+  protected getAttemptsKey(lexEvent: LexEvent, slotName: string): string {
+    return `lexhook.attempts.${lexEvent.currentIntent.name}.${slotName}`;
+  }
+
+  /**
+   * Invokes the configured IntentValidators in order.  Returns the LexResult re-eliciting the Slot named by the
+   * first failure, if any.
+   *
+   * @param lexEvent
+   */
+  protected async validateIntent(lexEvent: LexEvent): Promise<LexResult | undefined> {
+    for (const validator of this.config.intentValidators || []) {
+      const failure: IntentValidationFailure = await validator(lexEvent);
+      if (!failure) continue;
+
+      const slotEvaluator: SlotEvaluator = this.getSlotEvaluator(failure.slotName);
+      const slots = lexEvent.currentIntent.slots;
+      const se = new SlotEvaluationResult(SlotValidationAssessment.INVALID, {
+        value: slots[failure.slotName],
+        details: lexEvent.currentIntent.slotDetails ? lexEvent.currentIntent.slotDetails[failure.slotName] : undefined,
+      });
+      if (failure.message) se.message = failure.message;
 
-    return Promise.resolve(this.defaultAllSlotsValidResponder(lexEvent));
+      this.getLogger().debug(`::validateIntent(..) .. ${failure.slotName} failed intent validation`);
+      slots[failure.slotName] = null;
+      return this.respondToInvalidSlot(lexEvent, slotEvaluator, se);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Applies the SlotRule of a Slot, if any.  A skipped Slot has its value cleared, and an optional Slot is only
+   * evaluated when it has a value.  When the SentimentPolicy skips optional Slots, an empty optional Slot is not
+   * elicited, but a value it has is kept and evaluated.
+   *
+   * @param lexEvent
+   * @param slotName
+   */
+  protected async shouldEvaluateSlot(lexEvent: LexEvent, slotName: string): Promise<boolean> {
+    const rule: SlotRule = this.slotRules.get(slotName);
+    if (!rule) return true;
+
+    const slots = lexEvent.currentIntent.slots;
+    if (rule.skipWhen && (await rule.skipWhen(lexEvent))) {
+      if (slots[slotName] != null) slots[slotName] = null;
+      return false;
+    }
+
+    const empty = slots[slotName] == null || slots[slotName] === '';
+    if (empty && rule.optional && this.config.sentimentPolicy?.skipOptionalSlots(lexEvent)) return false;
+
+    const required = rule.requiredWhen ? await rule.requiredWhen(lexEvent) : !rule.optional;
+    return required || slots[slotName] != null;
+  }
+
+  /**
+   * Orders Slots so that each follows the Slots it depends upon, otherwise keeping the given order.  Throws a
+   * SlotDependencyCycleError if the dependencies form a cycle.
+   *
+   * @param slotNames
+   */
+  protected orderSlots(slotNames: string[]): string[] {
+    const ordered: string[] = [];
+    const visiting: string[] = [];
+
+    const visit = (slotName: string): void => {
+      if (ordered.includes(slotName)) return;
+      if (visiting.includes(slotName)) {
+        throw new SlotDependencyCycleError([...visiting.slice(visiting.indexOf(slotName)), slotName]);
+      }
+
+      visiting.push(slotName);
+      for (const dependency of this.slotRules.get(slotName)?.dependsOn || []) {
+        if (!slotNames.includes(dependency)) {
+          throw new LexHookError(`slot ${slotName} depends on ${dependency}, which has no SlotEvaluator`);
+        }
+        visit(dependency);
+      }
+      visiting.pop();
+      ordered.push(slotName);
+    };
+
+    slotNames.forEach(visit);
+    return ordered;
+  }
+
+  /**
+   * Invoked once all Slot values are valid when confirmation is configured.  Asks for confirmation, or reacts to
+   * the confirmation status of the current Intent.
+   *
+   * @param lexEvent
+   */
+  protected async handleConfirmation(lexEvent: LexEvent): Promise<LexResult> {
+    const confirmation: ConfirmationConfig = this.config.confirmation;
+
+    switch (lexEvent.currentIntent.confirmationStatus) {
+      case 'Confirmed':
+        if (confirmation.confirmedResponder) return confirmation.confirmedResponder(lexEvent);
+        if (this.config.allSlotsValidResponder) return this.config.allSlotsValidResponder(lexEvent);
+        return this.defaultAllSlotsValidResponder(lexEvent);
+      case 'Denied':
+        if (confirmation.deniedResponder) return confirmation.deniedResponder(lexEvent);
+        return this.defaultDeniedResponder(lexEvent);
+      default:
+        return this.defaultConfirmationResponder(lexEvent);
+    }
+  }
+
+  /**
+   * Evaluates a Slot, applying the SlotEvaluator's timeout (or the configured default).  Any error thrown
+   * or Promise rejected by the SlotEvaluator is rethrown as a SlotEvaluationError.
+   *
+   * @param lexEvent
+   * @param slotEvaluator
+   */
+  protected async evaluateSlot(lexEvent: LexEvent, slotEvaluator: SlotEvaluator): Promise<SlotEvaluationResult> {
+    const timeout = slotEvaluator.timeout ?? this.config.slotEvaluationTimeout;
+    const evaluation = Promise.resolve().then(() => slotEvaluator.evaluate(lexEvent));
+    let timer: ReturnType<typeof setTimeout>;
+
+    try {
+      if (!timeout) return await evaluation;
+
+      const expiry = new Promise<never>((resolve, reject) => {
+        timer = setTimeout(() => reject(new SlotEvaluationError(slotEvaluator.slotName, true)), timeout);
+      });
+      return await Promise.race([evaluation, expiry]);
+    } catch (e) {
+      if (e instanceof SlotEvaluationError) throw e;
+      throw new SlotEvaluationError(slotEvaluator.slotName, false, e);
+    } finally {
+      if (timer) clearTimeout(timer);
+    }
   }
 
   /**
@@ -242,13 +723,115 @@ export class DefaultDialogEventHandler implements EventHandler {
     if (!slotEvaluator) {
       //
       // ... then log something, and map a simple evaluator to it.
-      console.log(`::handle(..) .. no SlotEvaluator found for ${slotName} ... will use NotNullSlotEvaluator`);
+      this.getLogger().warn(`::handle(..) .. no SlotEvaluator found for ${slotName} ... will use NotNullSlotEvaluator`);
       slotEvaluator = new NotNullSlotEvaluator(slotName, 'null value is invalid');
       this.slotEvaluatorMap[slotName] = slotEvaluator;
     }
 
     return slotEvaluator;
   }
+
+  /**
+   * Resolves a message using the configured MessageCatalog.  Without a catalog, the message is returned as is.
+   *
+   * @param lexEvent
+   * @param message
+   * @param vars
+   */
+  protected formatMessage(lexEvent: LexEvent, message: string, vars?: { [name: string]: string }): string {
+    return this.config.messageCatalog ? this.config.messageCatalog.format(message, lexEvent, vars) : message;
+  }
+
+  /**
+   * Returns the configured Logger, or the default Logger.
+   */
+  protected getLogger(): Logger {
+    return this.config.logger || getDefaultLogger();
+  }
+}
+
+/**
+ * Re-usable functions for the deniedResponder of ConfirmationConfig.
+ */
+export class ConfirmationResponders {
+  /**
+   * Re-elicit a Slot, so the user can change its value.  The Slot value is cleared.
+   *
+   * @param slotName
+   * @param promptMessage
+   */
+  public static reElicitSlot = (slotName: string, promptMessage: string) => (lexEvent: LexEvent): LexResult => {
+    lexEvent.currentIntent.slots[slotName] = null;
+    return LexResultFactory.dialogActionElicitSlot({
+      intentName: lexEvent.currentIntent.name,
+      slotToElicit: slotName,
+      slots: lexEvent.currentIntent.slots,
+      message: { content: promptMessage, contentType: 'PlainText' },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  /**
+   * Close the conversation with a message, e.g. 'Okay, your order has been cancelled.'
+   *
+   * @param message
+   */
+  public static close = (message: string) => (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      message: { content: message, contentType: 'PlainText' },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+}
+
+/**
+ * Re-usable functions for the maxAttemptsResponder of RetryPolicy.
+ */
+export class MaxAttemptsResponders {
+  /**
+   * Close the conversation with a message, e.g. 'Sorry, I am unable to help you today.'
+   *
+   * @param message
+   */
+  public static close = (message: string) => (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      message: { content: message, contentType: 'PlainText' },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  /**
+   * Offer to switch to a different Intent, e.g. one that collects the same information a different way, by
+   * asking the user to confirm it.
+   *
+   * @param intentName
+   * @param message - e.g. 'Would you like me to text you a link instead?'
+   */
+  public static switchIntent = (intentName: string, message: string) => (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionConfirmIntent({
+      intentName,
+      slots: {},
+      message: { content: message, contentType: 'PlainText' },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  /**
+   * Flag the session for handoff to an agent, by setting a session attribute to 'true', and close the
+   * conversation so the contact flow can act on the flag.
+   *
+   * @param message - e.g. 'Let me transfer you to an agent.'
+   * @param attributeName - defaults to 'handoff'
+   */
+  public static handoff = (message: string, attributeName = 'handoff') => (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      message: { content: message, contentType: 'PlainText' },
+      sessionAttributes: { ...lexEvent.sessionAttributes, [attributeName]: 'true' },
+    });
+  };
 }
 
 /**
@@ -259,16 +842,17 @@ export class DefaultDialogEventHandler implements EventHandler {
 /**
  * An abstract Evaluator of a single Slot value that can be sub-classed.
  */
-export abstract class BaseSlotEvaluator implements SlotEvaluator {
-  slotName: string;
+export abstract class BaseSlotEvaluator<S extends string = string> implements SlotEvaluator<S> {
+  slotName: S;
   promptMessage: string;
+  timeout?: number;
 
   /**
    *
    * @param sn - Slot name
    * @param pm  - Prompt message that can be used to Elicit a Slot.
    */
-  constructor(sn: string, pm: string) {
+  constructor(sn: S, pm: string) {
     this.slotName = sn;
     this.promptMessage = pm;
   }
@@ -276,19 +860,24 @@ export abstract class BaseSlotEvaluator implements SlotEvaluator {
   /**
    * The default implementation uses the isValid function property to determine
    * if the Slot filled by user via Lex is valid.  If so, success is returned.
-   * Otherwise, the originalValue specified by the user is evaluated.  If this is
-   * determined to be valid (using the same function property), then the SlotEvaluationResult
-   * will identify the originalValue as the new Slot value.
+   * Otherwise, the resolutions and then the originalValue specified by the user are evaluated.
+   * If one of these is determined to be valid (using the same function property), then the
+   * SlotEvaluationResult will identify it as the new Slot value.
    *
-   * If an original value was not specified or is invalid, then a fail SlotEvalutionResult
-   * is returned.
+   * Each candidate value is first canonicalized, so a canonical form of a valid value also becomes
+   * the new Slot value.  If no candidate is valid, then a fail SlotEvalutionResult is returned.
    *
    * @param lexEvent
    */
-  public evaluate(lexEvent: LexEvent): SlotEvaluationResult {
+  public async evaluate(lexEvent: LexEvent): Promise<SlotEvaluationResult> {
     const slotValue: EvaluatableSlotValue = this.getSlotValue(lexEvent);
-    const va: SlotValidationAssessment = this.isValid(slotValue);
-    return new SlotEvaluationResult(va, slotValue);
+
+    for (const candidate of this.getCandidateValues(slotValue)) {
+      const va: SlotValidationAssessment = await this.isValid({ ...slotValue, value: candidate });
+      if (va !== SlotValidationAssessment.INVALID) return this.createResult(va, slotValue, candidate);
+    }
+
+    return new SlotEvaluationResult(SlotValidationAssessment.INVALID, slotValue);
   }
 
   /**
@@ -307,6 +896,53 @@ export abstract class BaseSlotEvaluator implements SlotEvaluator {
     return SlotValidationAssessment.INVALID;
   }
 
+  /**
+   * Returns the canonical form of a candidate Slot value.  By default, the value itself.  Sub-classes may
+   * override this, e.g. to map synonyms to the value they stand for.
+   *
+   * @param value
+   */
+  protected canonicalize(value: string): string {
+    return value;
+  }
+
+  /**
+   * Returns the canonicalized values to evaluate in order: the Slot value, then the values of its resolutions,
+   * then its originalValue.  The Slot value is always included, even if null, so that recent Slot values are
+   * recognized.
+   *
+   * @param slotValue
+   */
+  protected getCandidateValues(slotValue: EvaluatableSlotValue): string[] {
+    const details = slotValue.details || { resolutions: [], originalValue: null };
+    const fallbacks = [...(details.resolutions || []).map((r) => r.value), details.originalValue];
+    const candidates: string[] = [slotValue.value == null ? slotValue.value : this.canonicalize(slotValue.value)];
+
+    for (const v of fallbacks) {
+      if (v == null || v === '') continue;
+      const candidate = this.canonicalize(v);
+      if (!candidates.includes(candidate)) candidates.push(candidate);
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Creates the SlotEvaluationResult for a valid candidate value, replacing the Slot value if they differ.
+   *
+   * @param va
+   * @param slotValue
+   * @param candidate
+   */
+  protected createResult(
+    va: SlotValidationAssessment,
+    slotValue: EvaluatableSlotValue,
+    candidate: string,
+  ): SlotEvaluationResult {
+    const replaced = va === SlotValidationAssessment.VALID_SLOT && candidate !== slotValue.value;
+    return new SlotEvaluationResult(va, slotValue, replaced ? { [this.slotName]: candidate } : undefined);
+  }
+
   /**
    * Returns Slot value data necessary to evaluate validity
    *
@@ -317,7 +953,7 @@ export abstract class BaseSlotEvaluator implements SlotEvaluator {
 
     return {
       value: lexEvent.currentIntent.slots[this.slotName],
-      details: lexEvent.currentIntent.slotDetails[this.slotName],
+      details: lexEvent.currentIntent.slotDetails ? lexEvent.currentIntent.slotDetails[this.slotName] : undefined,
       recentValue: recentIntentSummary ? recentIntentSummary.slots[this.slotName] : null,
       elicitedSlotName: recentIntentSummary ? recentIntentSummary.slotToElicit : null,
     };
@@ -329,24 +965,14 @@ export abstract class BaseSlotEvaluator implements SlotEvaluator {
    * @param lexEvent
    */
   protected getRecentIntentSummary(lexEvent: LexEvent): IntentSummary {
-    if (!lexEvent.recentIntentSummaryView) {
-      return null;
-    }
-
-    for (const is of lexEvent.recentIntentSummaryView) {
-      if (is.intentName === lexEvent.currentIntent.name) {
-        return is;
-      }
-    }
-
-    return null;
+    return new ConversationContext(lexEvent).getRecentIntentSummary() || null;
   }
 }
 
 /**
  * Ensure that Slot value is not null.  Simple.
  */
-export class NotNullSlotEvaluator extends BaseSlotEvaluator {
+export class NotNullSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
   /**
    * Returns VALID_SLOT if the slot value is truthy; INVALID if not.  Returns VALID_RECENT_SLOT
    * if super-class isValid method returns so.
@@ -363,16 +989,150 @@ export class NotNullSlotEvaluator extends BaseSlotEvaluator {
 }
 
 /**
- * Ensure that whatever value was specified exists as is within a Set
- * provided to the constructor.
+ * Ensure that a Slot value passes a lookup that completes asynchronously, e.g. a query of DynamoDB, an
+ * inventory API or an address service.
+ */
+export class LookupSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
+  private lookup: (value: string, lexEvent: LexEvent) => Promise<boolean>;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param lookup - resolves true if the Slot value is valid
+   * @param timeout - optional number of milliseconds the lookup is given to complete
+   */
+  constructor(
+    slotName: S,
+    promptMessage: string,
+    lookup: (value: string, lexEvent: LexEvent) => Promise<boolean>,
+    timeout?: number,
+  ) {
+    super(slotName, promptMessage);
+    this.lookup = lookup;
+    if (timeout) this.timeout = timeout;
+  }
+
+  /**
+   * Returns VALID_RECENT_SLOT if super-class isValid method returns so.  Otherwise, looks up each
+   * candidate value in turn (see getCandidateValues) until one is found.
+   *
+   * @param lexEvent
+   */
+  public async evaluate(lexEvent: LexEvent): Promise<SlotEvaluationResult> {
+    const slotValue: EvaluatableSlotValue = this.getSlotValue(lexEvent);
+    const va: SlotValidationAssessment = this.isValid(slotValue);
+    if (va !== SlotValidationAssessment.INVALID) return new SlotEvaluationResult(va, slotValue);
+
+    for (const candidate of this.getCandidateValues(slotValue)) {
+      if (candidate && (await this.lookup(candidate, lexEvent))) {
+        return this.createResult(SlotValidationAssessment.VALID_SLOT, slotValue, candidate);
+      }
+    }
+
+    return new SlotEvaluationResult(SlotValidationAssessment.INVALID, slotValue);
+  }
+}
+
+/**
+ * Options that loosen how a SetMembershipSlotEvaluator matches values to members of its Set.  A matched value
+ * is replaced by the member, so that e.g. "Rose" and "roses" both resolve to the canonical value "roses".
+ */
+export interface SetMembershipOptions {
+  /**
+   * Match members regardless of case.
+   */
+  caseInsensitive?: boolean;
+  /**
+   * Match the closest member within this edit distance, e.g. 1 to allow a single typo.
+   */
+  maxEditDistance?: number;
+  /**
+   * Members keyed by synonym, e.g. { rose: 'roses', 'red rose': 'roses' }.
+   */
+  synonyms?: { [synonym: string]: string };
+}
+
+/**
+ * Ensure that whatever value was specified exists within a Set
+ * provided to the constructor, exactly or as allowed by SetMembershipOptions.
  *
  */
-export class SetMembershipSlotEvaluator extends BaseSlotEvaluator {
+export class SetMembershipSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
   private set: Set<string>;
+  private offerButtons: boolean;
+  private options: SetMembershipOptions;
 
-  constructor(slotName: string, promptMessage: string, s: Set<string>) {
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param s - the valid Slot values
+   * @param offerButtons - if true, the valid Slot values are offered as buttons when the Slot is re-elicited
+   * @param options - optional fuzzy matching of values to members
+   */
+  constructor(
+    slotName: S,
+    promptMessage: string,
+    s: Set<string>,
+    offerButtons = false,
+    options: SetMembershipOptions = {},
+  ) {
     super(slotName, promptMessage);
     this.set = s;
+    this.offerButtons = offerButtons;
+    this.options = options;
+  }
+
+  /**
+   * Returns a response card with a button for each member of the Set, if buttons are offered and there are not
+   * too many members to fit.
+   */
+  public getResponseCard(): ResponseCard | undefined {
+    const members = Array.from(this.set);
+    const maxButtons = ResponseCardLimits.attachments * ResponseCardLimits.buttonsPerAttachment;
+    if (!this.offerButtons || members.length === 0 || members.length > maxButtons) return undefined;
+
+    return new ResponseCardBuilder()
+      .attachment()
+      .title(this.promptMessage.substring(0, ResponseCardLimits.titleLength))
+      .buttons(members)
+      .build();
+  }
+
+  /**
+   * Returns the member of the Set that a value matches, according to the options, or the value itself if it
+   * matches none.
+   *
+   * @param value
+   */
+  protected canonicalize(value: string): string {
+    if (this.set.has(value)) return value;
+
+    const fold = (v: string): string => (this.options.caseInsensitive ? v.toLowerCase() : v);
+    const members = Array.from(this.set);
+    const synonyms = this.options.synonyms || {};
+
+    const synonym = Object.keys(synonyms).find((k) => fold(k) === fold(value));
+    if (synonym !== undefined) return synonyms[synonym];
+
+    const member = members.find((m) => fold(m) === fold(value));
+    if (member !== undefined) return member;
+
+    if (this.options.maxEditDistance) {
+      let closest: string;
+      let closestDistance = this.options.maxEditDistance + 1;
+      for (const m of members) {
+        const distance = Util.editDistance(fold(m), fold(value));
+        if (distance < closestDistance) {
+          closest = m;
+          closestDistance = distance;
+        }
+      }
+      if (closest !== undefined) return closest;
+    }
+
+    return value;
   }
 
   /**
@@ -393,7 +1153,7 @@ export class SetMembershipSlotEvaluator extends BaseSlotEvaluator {
  * Ensure that a LexDate is valid.  Depending on Slot Type defined within the Lex
  * Intent, this maybe redundant, e.g. with AMAZON.Date type, Lex will ensure value is valid.
  */
-export class LexDateSlotEvaluator extends BaseSlotEvaluator {
+export class LexDateSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
   /**
    *
    * @param slotValue
@@ -410,21 +1170,37 @@ export class LexDateSlotEvaluator extends BaseSlotEvaluator {
 }
 
 /**
- * Ensure that a currency value is valid.  Depending on Slot Type defined within the Lex
- * Intent, this maybe redundant.
+ * Ensure that a currency value is valid, e.g. 1234.56, $1,234.56 or -€5.  Depending on Slot Type defined within
+ * the Lex Intent, this maybe redundant.
  */
-export class CurrencySlotEvaluator extends BaseSlotEvaluator {
+export class CurrencySlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
+  private range: { min?: number; max?: number };
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param range - optional inclusive bounds of the amount, e.g. { min: 0 } to reject negative amounts
+   */
+  constructor(slotName: S, promptMessage: string, range: { min?: number; max?: number } = {}) {
+    super(slotName, promptMessage);
+    this.range = range;
+  }
+
   /**
-   * Returns VALID_SLOT if string value looks like dollars and cents, i.e.
-   * integer, decimal, 2 digits after decimal.  Commas not supported.  Weak.
+   * Returns VALID_SLOT if string value is a currency amount (see Util.parseCurrency) within the range.
    *
    * @param slotValue
    */
   public isValid(slotValue: EvaluatableSlotValue): SlotValidationAssessment {
     const sva: SlotValidationAssessment = super.isValid(slotValue);
     if (sva === SlotValidationAssessment.INVALID) {
-      const re = new RegExp('^[1-9]?[0-9]*[.][0-9]{2}');
-      return re.test(slotValue.value) ? SlotValidationAssessment.VALID_SLOT : SlotValidationAssessment.INVALID;
+      const amount = Util.parseCurrency(slotValue.value);
+      const valid =
+        amount !== undefined &&
+        (this.range.min === undefined || amount >= this.range.min) &&
+        (this.range.max === undefined || amount <= this.range.max);
+      return valid ? SlotValidationAssessment.VALID_SLOT : SlotValidationAssessment.INVALID;
     }
     return sva;
   }
@@ -0,0 +1,249 @@
+import { LexEvent, LexResult, EventHandler, LexResultFactory, Util } from './lex-hook';
+import { SlotParseError } from './errors';
+import { Logger, getDefaultLogger } from './logger';
+import { MessageCatalog } from './message-catalog';
+
+/**
+ * This library includes a DefaultFulfillmentEventHandler, the counterpart of the DefaultDialogEventHandler, that can
+ * be used to handle Fulfillment Lex events if desired.  It converts the Slot values of the current Intent into a
+ * typed payload, invokes a business function with it, and maps the outcome to a Close dialog action.
+ *
+ *     new DefaultFulfillmentEventHandler({
+ *       slotParsers: { FlowerType: SlotParsers.string, PickupDate: SlotParsers.date, Quantity: SlotParsers.integer },
+ *       fulfill: async (order) => ({ status: 'success', vars: { orderId: await placeOrder(order) } }),
+ *       messages: { success: 'Your {slots.FlowerType} will be ready.  Your order number is {orderId}.' },
+ *       followUp: 'Anything else?',
+ *     });
+ */
+
+/**
+ * Converts a Slot value into a typed value.  Throws an Error, whose message is the reason, if the value cannot be
+ * converted.
+ */
+export type SlotParser<T> = (value: string | null) => T;
+
+export interface SlotParserMap {
+  [slotName: string]: SlotParser<unknown>;
+}
+
+/**
+ * The typed payload produced by a SlotParserMap.
+ */
+export type FulfillmentPayload<P extends SlotParserMap> = { [K in keyof P]: ReturnType<P[K]> };
+
+/**
+ * Re-usable SlotParsers.  Except for those wrapped with optional, a null Slot value cannot be parsed.
+ */
+export class SlotParsers {
+  public static string: SlotParser<string> = (value) => {
+    if (value == null) throw new Error('is null');
+    return value;
+  };
+
+  public static number: SlotParser<number> = (value) => {
+    const n = value == null || value.trim() === '' ? NaN : Number(value);
+    if (!Number.isFinite(n)) throw new Error('is not a number');
+    return n;
+  };
+
+  public static integer: SlotParser<number> = (value) => {
+    const n = SlotParsers.number(value);
+    if (!Number.isInteger(n)) throw new Error('is not an integer');
+    return n;
+  };
+
+  /**
+   * Parses a date (YYYY-MM-DD) as a Date at local midnight.
+   */
+  public static date: SlotParser<Date> = (value) => {
+    if (!Util.isValidLexDate(value)) throw new Error('is not a date');
+    return new Date(`${value}T00:00:00`);
+  };
+
+  /**
+   * Parses a currency amount, see Util.parseCurrency.
+   */
+  public static currency: SlotParser<number> = (value) => {
+    const amount = Util.parseCurrency(value);
+    if (amount === undefined) throw new Error('is not a currency amount');
+    return amount;
+  };
+
+  /**
+   * Parses 'yes'/'no' and 'true'/'false', regardless of case.
+   */
+  public static boolean: SlotParser<boolean> = (value) => {
+    const v = (value || '').trim().toLowerCase();
+    if (v === 'yes' || v === 'true') return true;
+    if (v === 'no' || v === 'false') return false;
+    throw new Error('is not yes or no');
+  };
+
+  /**
+   * Allows a null Slot value, which is parsed as undefined.
+   *
+   * @param parser
+   */
+  public static optional = <T>(parser: SlotParser<T>): SlotParser<T | undefined> => (value) =>
+    value == null ? undefined : parser(value);
+}
+
+/**
+ * The outcome of a business function.
+ */
+export interface FulfillmentOutcome {
+  /**
+   * A partial outcome is Fulfilled, but with the partial message, e.g. when some items of an order are
+   * unavailable.
+   */
+  status: 'success' | 'failure' | 'partial';
+  /**
+   * Overrides the configured message for the status.
+   */
+  message?: string;
+  /**
+   * Variables interpolated into the message, e.g. { orderId: '123' } for {orderId}.
+   */
+  vars?: { [name: string]: string };
+  /**
+   * Session attributes to set.
+   */
+  sessionAttributes?: { [key: string]: string };
+}
+
+/**
+ * Clients using the DefaultFulfillmentEventHandler use an implementation of this interface to configure it.
+ */
+export interface FulfillmentEventHandlerConfig<P extends SlotParserMap> {
+  /**
+   * A SlotParser for each Slot of the payload.  Slots without a parser are not included in the payload.
+   */
+  slotParsers: P;
+  /**
+   * The business function.  Errors it throws are not caught, so that route handles them, see ErrorMapper.
+   */
+  fulfill: (payload: FulfillmentPayload<P>, lexEvent: LexEvent) => FulfillmentOutcome | Promise<FulfillmentOutcome>;
+  /**
+   * Messages for each status.  Messages are templates: {slots.name}, {session.name} and the variables of the
+   * outcome are interpolated.  With a messageCatalog, they are treated as keys.
+   */
+  messages?: { success?: string; failure?: string; partial?: string };
+  /**
+   * If specified, the conversation is kept open after a success or partial outcome by an ElicitIntent dialog
+   * action, whose message is the outcome message followed by this one, e.g. 'Anything else?'
+   */
+  followUp?: string;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when a Slot value
+   * cannot be parsed.  If not specified, the SlotParseError is thrown from handle.
+   */
+  slotParseErrorResponder?: (lexEvent: LexEvent, error: SlotParseError) => LexResult | Promise<LexResult>;
+  /**
+   * If specified, messages are resolved from this catalog in the locale of the conversation.
+   */
+  messageCatalog?: MessageCatalog;
+  /**
+   * The Logger used by the DefaultFulfillmentEventHandler.  If not specified, the default Logger is used.
+   */
+  logger?: Logger;
+}
+
+const DEFAULT_MESSAGES = {
+  success: 'Your request has been completed.',
+  failure: 'Sorry, your request could not be completed.',
+  partial: 'Your request has been partly completed.',
+};
+
+/**
+ * A specific implementation of an EventHandler dedicated to Fulfillment.
+ */
+export class DefaultFulfillmentEventHandler<P extends SlotParserMap> implements EventHandler {
+  protected config: FulfillmentEventHandlerConfig<P>;
+
+  constructor(config: FulfillmentEventHandlerConfig<P>) {
+    this.config = config;
+  }
+
+  /**
+   * Parses the payload, invokes the business function, and responds according to its outcome.
+   *
+   * @param lexEvent
+   */
+  public async handle(lexEvent: LexEvent): Promise<LexResult> {
+    let payload: FulfillmentPayload<P>;
+    try {
+      payload = this.parsePayload(lexEvent);
+    } catch (e) {
+      if (!(e instanceof SlotParseError) || !this.config.slotParseErrorResponder) throw e;
+      return this.config.slotParseErrorResponder(lexEvent, e);
+    }
+
+    const outcome: FulfillmentOutcome = await this.config.fulfill(payload, lexEvent);
+    this.getLogger().info(`::handle(..) .. fulfillment outcome ${outcome.status}`);
+
+    const sessionAttributes = { ...lexEvent.sessionAttributes, ...outcome.sessionAttributes };
+    const message = this.formatMessage(
+      lexEvent,
+      outcome.message ?? (this.config.messages || {})[outcome.status] ?? DEFAULT_MESSAGES[outcome.status],
+      outcome.vars,
+    );
+
+    if (outcome.status !== 'failure' && this.config.followUp) {
+      return LexResultFactory.dialogActionElicitIntent({
+        message: {
+          contentType: 'PlainText',
+          content: `${message} ${this.formatMessage(lexEvent, this.config.followUp)}`,
+        },
+        sessionAttributes,
+      });
+    }
+
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: outcome.status === 'failure' ? 'Failed' : 'Fulfilled',
+      message: { contentType: 'PlainText', content: message },
+      sessionAttributes,
+    });
+  }
+
+  /**
+   * Converts the Slot values of the current Intent into the payload.  Throws a SlotParseError if a value cannot
+   * be parsed.
+   *
+   * @param lexEvent
+   */
+  public parsePayload(lexEvent: LexEvent): FulfillmentPayload<P> {
+    const slots = lexEvent.currentIntent.slots;
+    const payload: { [slotName: string]: unknown } = {};
+
+    Object.keys(this.config.slotParsers).forEach((slotName) => {
+      const value = slots[slotName] ?? null;
+      try {
+        payload[slotName] = this.config.slotParsers[slotName](value);
+      } catch (e) {
+        throw new SlotParseError(slotName, value, e instanceof Error ? e.message : String(e));
+      }
+    });
+
+    return payload as FulfillmentPayload<P>;
+  }
+
+  /**
+   * Resolves a message using the configured MessageCatalog, or interpolates it.
+   *
+   * @param lexEvent
+   * @param message
+   * @param vars
+   */
+  protected formatMessage(lexEvent: LexEvent, message: string, vars?: { [name: string]: string }): string {
+    return this.config.messageCatalog
+      ? this.config.messageCatalog.format(message, lexEvent, vars)
+      : MessageCatalog.interpolate(message, lexEvent, vars);
+  }
+
+  /**
+   * Returns the configured Logger, or the default Logger.
+   */
+  protected getLogger(): Logger {
+    return this.config.logger || getDefaultLogger();
+  }
+}
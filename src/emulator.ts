@@ -0,0 +1,435 @@
+import * as http from 'http';
+import * as readline from 'readline';
+import { LexResult, LexResultFactory, ResponseCard } from './lex-hook';
+import { BotDefinition, BotDefinitions, IntentDefinition } from './bot-definition';
+import { ConversationSimulator, ConversationSimulatorConfig, SimulatedTurn, UserTurn } from './conversation-simulator';
+
+/**
+ * The LexEmulator lets you chat with a Bot locally, without deploying its code hooks to Lambda.  It stands in for
+ * the natural language understanding of Lex with simple keyword and pattern matching against a BotDefinition, and
+ * plays each utterance through the ConversationSimulator, and so through route to the LexEventHandler.  It can be
+ * driven from a terminal, with startRepl, or over HTTP, with createEmulatorServer, e.g. from a script such as:
+ *
+ *     const emulator = new LexEmulator({ bot, handler: orderFlowersHandler });
+ *     startRepl(emulator).then(() => process.exit(0));
+ */
+
+/**
+ * What an utterance expresses: the Intent, if one is recognized, and any Slot values found in it.
+ */
+export type NluResult = Omit<UserTurn, 'utterance'>;
+
+/**
+ * A stand-in for the natural language understanding of Lex.
+ */
+export interface Nlu {
+  /**
+   * @param utterance
+   * @param activeIntentName - the Intent of the conversation so far, if any
+   */
+  interpret: (utterance: string, activeIntentName?: string) => NluResult;
+}
+
+export interface KeywordNluConfig {
+  /**
+   * Additional patterns per Intent name.  Named groups of a RegExp fill the Slots of the same name, e.g.
+   * /order (?<FlowerType>\w+)/i.  Strings are treated like sample utterances, e.g. 'I want {FlowerType}'.
+   */
+  patterns?: { [intentName: string]: (RegExp | string)[] };
+  /**
+   * Words ignored when matching utterances to Intents by keyword.  Defaults to a few common English words.
+   */
+  stopWords?: string[];
+}
+
+const DEFAULT_STOP_WORDS = 'a an and can for i id im is it like me my of please some the to want with would you'.split(
+  ' ',
+);
+
+interface IntentPattern {
+  intentName: string;
+  regExp: RegExp;
+  /**
+   * The Slot filled by each positional group of the RegExp, if it has no named groups.
+   */
+  slotNames: string[];
+}
+
+/**
+ * An Nlu that recognizes an Intent when an utterance matches one of its sample utterances (with {Slot}
+ * placeholders matching any text) or configured patterns, or, failing that, when more of the words of the
+ * utterance occur in the sample utterances of that Intent than of any other.  Values and synonyms of custom Slot
+ * types found in the utterance fill the Slots of that type.  Sample utterances that are only placeholders, e.g.
+ * '{FlowerType}', are not used as patterns, as they would match any utterance.
+ *
+ * While an Intent is active, another Intent is recognized only by a pattern, as Lex would rather fill the Slot it
+ * is eliciting.
+ */
+export class KeywordNlu implements Nlu {
+  protected bot: BotDefinition;
+  protected patterns: IntentPattern[] = [];
+  protected keywords: Map<string, Set<string>> = new Map();
+  protected stopWords: Set<string>;
+
+  constructor(bot: BotDefinition, config: KeywordNluConfig = {}) {
+    this.bot = bot;
+    this.stopWords = new Set(config.stopWords || DEFAULT_STOP_WORDS);
+
+    bot.intents.forEach((intent) => {
+      const configured = (config.patterns || {})[intent.name] || [];
+      const samples = (intent.sampleUtterances || []).filter((u) => u.replace(/\{[^}]*\}/g, '').trim() !== '');
+      [...configured, ...samples].forEach((p) => this.patterns.push(this.toPattern(intent, p)));
+      const words = (intent.sampleUtterances || []).map((u) => this.words(u.replace(/\{[^}]*\}/g, ' ')));
+      this.keywords.set(intent.name, new Set(([] as string[]).concat(...words)));
+    });
+  }
+
+  public interpret(utterance: string, activeIntentName?: string): NluResult {
+    const text = utterance.trim();
+
+    for (const pattern of this.patterns) {
+      const match = pattern.regExp.exec(text);
+      if (!match) continue;
+
+      const intent = BotDefinitions.getIntent(this.bot, pattern.intentName);
+      const captured: { [name: string]: string } = { ...(match.groups || {}) };
+      pattern.slotNames.forEach((slotName, i) => (captured[slotName] = match[i + 1]));
+
+      const slots = this.findSlotValues(intent, text);
+      Object.keys(captured).forEach((slotName) => {
+        if (captured[slotName] !== undefined) slots[slotName] = this.resolve(intent, slotName, captured[slotName]);
+      });
+      return { intent: intent.name, slots };
+    }
+
+    if (activeIntentName) {
+      const active = BotDefinitions.getIntent(this.bot, activeIntentName);
+      return { slots: active ? this.findSlotValues(active, text) : {} };
+    }
+
+    const words = this.words(text);
+    const scores = this.bot.intents.map((intent) => words.filter((w) => this.keywords.get(intent.name).has(w)).length);
+    const best = Math.max(0, ...scores);
+    if (best === 0 || scores.filter((s) => s === best).length > 1) return { slots: {} };
+
+    const intent = this.bot.intents[scores.indexOf(best)];
+    return { intent: intent.name, slots: this.findSlotValues(intent, text) };
+  }
+
+  /**
+   * Converts a sample utterance, or a configured pattern, to an IntentPattern.
+   *
+   * @param intent
+   * @param pattern
+   */
+  protected toPattern(intent: IntentDefinition, pattern: RegExp | string): IntentPattern {
+    if (pattern instanceof RegExp) return { intentName: intent.name, regExp: pattern, slotNames: [] };
+
+    const slotNames: string[] = [];
+    const source = pattern
+      .trim()
+      .split(/(\{[^}]*\})/)
+      .map((part) => {
+        const placeholder = /^\{([^}]*)\}$/.exec(part);
+        if (!placeholder) return part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+        slotNames.push(placeholder[1]);
+        return '(.+?)';
+      })
+      .join('');
+
+    return { intentName: intent.name, regExp: new RegExp(`^${source}[.!?]*$`, 'i'), slotNames };
+  }
+
+  /**
+   * Finds values, or synonyms of values, of the custom Slot types of an Intent in an utterance.
+   *
+   * @param intent
+   * @param text
+   */
+  protected findSlotValues(intent: IntentDefinition, text: string): { [name: string]: string } {
+    const slots: { [name: string]: string } = {};
+    const padded = ` ${this.words(text, false).join(' ')} `;
+
+    intent.slots.forEach((slot) => {
+      const slotType = BotDefinitions.getSlotType(this.bot, slot.slotType);
+      if (!slotType) return;
+
+      for (const v of slotType.values) {
+        const phrases = [v.value, ...(v.synonyms || [])].map((p) => this.words(p, false).join(' '));
+        if (phrases.some((p) => p && padded.includes(` ${p} `))) {
+          slots[slot.name] = v.value;
+          return;
+        }
+      }
+    });
+
+    return slots;
+  }
+
+  /**
+   * Resolves captured text to a value of the Slot's custom type, if it is one.
+   */
+  protected resolve(intent: IntentDefinition, slotName: string, text: string): string {
+    const slot = intent.slots.find((s) => s.name === slotName);
+    const slotType = slot ? BotDefinitions.getSlotType(this.bot, slot.slotType) : undefined;
+    return (slotType ? BotDefinitions.resolveSlotTypeValue(slotType, text) : undefined) ?? text.trim();
+  }
+
+  /**
+   * Splits text into lower case words, without punctuation, and optionally without stop words.
+   */
+  protected words(text: string, withoutStopWords = true): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, '')
+      .split(/\s+/)
+      .filter((w) => w && !(withoutStopWords && this.stopWords.has(w)));
+  }
+}
+
+export interface LexEmulatorConfig extends ConversationSimulatorConfig {
+  /**
+   * Defaults to a KeywordNlu of the Bot.
+   */
+  nlu?: Nlu;
+  /**
+   * The message used when no Intent is recognized.  Defaults to the clarification prompt of Lex.
+   */
+  clarificationMessage?: string;
+}
+
+/**
+ * Chats with a Bot, one utterance at a time.  See startRepl and createEmulatorServer.
+ */
+export class LexEmulator {
+  protected config: LexEmulatorConfig;
+  protected nlu: Nlu;
+  protected simulator: ConversationSimulator;
+
+  constructor(config: LexEmulatorConfig) {
+    this.config = config;
+    this.nlu = config.nlu || new KeywordNlu(config.bot);
+    this.reset();
+  }
+
+  /**
+   * Formats a turn for display: its dialog action, the Slot being elicited, its message and any buttons, e.g.
+   *
+   *     [ElicitSlot: PickupDate] What day do you want the roses to be picked up?
+   *
+   * @param turn
+   */
+  public static formatTurn = (turn: SimulatedTurn): string => {
+    const da = turn.result.dialogAction;
+    const state =
+      da.type === 'Close'
+        ? `Close: ${da.fulfillmentState}`
+        : turn.slotToElicit
+        ? `${da.type}: ${turn.slotToElicit}`
+        : da.type;
+    const lines = [`[${state}]${turn.message ? ` ${turn.message}` : ''}`];
+
+    const card = da.type !== 'Delegate' ? da.responseCard : undefined;
+    ((card && card.genericAttachments) || []).forEach((a) => {
+      const buttons = (a.buttons || []).map((b) => b.text).join(' | ');
+      const parts = [a.title, buttons ? `(${buttons})` : undefined, a.attachmentLinkUrl];
+      lines.push(`  ${parts.filter((p) => p).join(' ')}`);
+    });
+
+    return lines.join('\n');
+  };
+
+  /**
+   * Plays an utterance.  If no Intent is active and none is recognized, the user is asked to rephrase, without
+   * invoking the handler, as Lex would.
+   *
+   * @param utterance
+   */
+  public async send(utterance: string): Promise<SimulatedTurn> {
+    const activeIntentName = this.simulator.getActiveIntentName() || undefined;
+    const nluResult = this.nlu.interpret(utterance, activeIntentName);
+
+    if (!activeIntentName && !nluResult.intent) {
+      const message = this.config.clarificationMessage || 'Sorry, can you please repeat that?';
+      const result: LexResult = LexResultFactory.dialogActionElicitIntent({
+        message: { contentType: 'PlainText', content: message },
+        sessionAttributes: this.simulator.getSessionAttributes(),
+      });
+      const turn: SimulatedTurn = {
+        utterance,
+        steps: [{ source: 'Lex', result }],
+        result,
+        dialogActionType: 'ElicitIntent',
+        message,
+      };
+      this.simulator.transcript.push(turn);
+      return turn;
+    }
+
+    return this.simulator.say(utterance, nluResult);
+  }
+
+  /**
+   * Starts a new conversation, with the initial session attributes.
+   */
+  public reset(): void {
+    this.simulator = new ConversationSimulator(this.config);
+  }
+
+  /**
+   * The ConversationSimulator of the current conversation, e.g. for its transcript or session attributes.
+   */
+  public getSimulator(): ConversationSimulator {
+    return this.simulator;
+  }
+}
+
+export interface ReplOptions {
+  input?: NodeJS.ReadableStream;
+  output?: NodeJS.WritableStream;
+  /**
+   * Defaults to '> '.
+   */
+  prompt?: string;
+}
+
+/**
+ * Reads utterances from the terminal, one per line, and writes the Bot's responses.  The commands /reset,
+ * /session and /quit start a new conversation, show the session attributes, and end the REPL.  Resolves when the
+ * REPL ends.
+ *
+ * @param emulator
+ * @param options - the input and output streams default to stdin and stdout
+ */
+export const startRepl = (emulator: LexEmulator, options: ReplOptions = {}): Promise<void> => {
+  const output = options.output || process.stdout;
+  const rl = readline.createInterface({ input: options.input || process.stdin, output, terminal: false });
+  const prompt = options.prompt ?? '> ';
+  const write = (text: string): void => {
+    output.write(`${text}\n`);
+  };
+
+  const handleLine = async (line: string): Promise<void> => {
+    const text = line.trim();
+    if (text === '/quit') {
+      rl.close();
+    } else if (text === '/reset') {
+      emulator.reset();
+      write('[new conversation]');
+    } else if (text === '/session') {
+      write(JSON.stringify(emulator.getSimulator().getSessionAttributes()));
+    } else if (text) {
+      try {
+        write(LexEmulator.formatTurn(await emulator.send(text)));
+      } catch (e) {
+        write(`[error] ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  };
+
+  return new Promise((resolve) => {
+    let pending: Promise<void> = Promise.resolve();
+    output.write(prompt);
+    rl.on('line', (line) => {
+      pending = pending.then(() => handleLine(line)).then(() => void output.write(prompt));
+    });
+    rl.on('close', () => pending.then(() => resolve()));
+  });
+};
+
+/**
+ * The body of a response of the emulator server, modelled on the PostText response of the Lex runtime API.
+ */
+export interface EmulatorTextResponse {
+  intentName: string | null;
+  slots: { [name: string]: string | null };
+  sessionAttributes: { [key: string]: string };
+  message?: string;
+  dialogState: 'ElicitIntent' | 'ConfirmIntent' | 'ElicitSlot' | 'Fulfilled' | 'ReadyForFulfillment' | 'Failed';
+  slotToElicit?: string;
+  responseCard?: ResponseCard;
+}
+
+/**
+ * Creates, but does not start, an HTTP server for the emulator, with a conversation per user id.  Its paths are
+ * those of the Lex runtime API, so that clients of PostText can be pointed at it:
+ *
+ *     POST /bot/{bot}/alias/{alias}/user/{userId}/text with the body { "inputText": "I would like roses" }
+ *     DELETE /bot/{bot}/alias/{alias}/user/{userId}/session to start a new conversation
+ *
+ * @param createEmulator - creates the LexEmulator of a user's conversation
+ */
+export const createEmulatorServer = (createEmulator: (userId: string) => LexEmulator): http.Server => {
+  const emulators: Map<string, LexEmulator> = new Map();
+  const emulatorOf = (userId: string): LexEmulator => {
+    if (!emulators.has(userId)) emulators.set(userId, createEmulator(userId));
+    return emulators.get(userId);
+  };
+
+  const respond = (res: http.ServerResponse, status: number, body: unknown): void => {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  return http.createServer((req, res) => {
+    const path = (req.url || '').split('?')[0];
+    const text = /\/user\/([^/]+)\/text$/.exec(path);
+    const session = /\/user\/([^/]+)\/session$/.exec(path);
+
+    if (req.method === 'DELETE' && session) {
+      emulators.delete(decodeURIComponent(session[1]));
+      return respond(res, 200, {});
+    }
+    if (req.method !== 'POST' || !text) return respond(res, 404, { message: `no route for ${req.method} ${path}` });
+
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (body += chunk));
+    req.on('end', async () => {
+      let inputText: unknown;
+      try {
+        inputText = JSON.parse(body || '{}').inputText;
+      } catch (e) {
+        return respond(res, 400, { message: 'the body is not JSON' });
+      }
+      if (typeof inputText !== 'string' || !inputText.trim()) {
+        return respond(res, 400, { message: 'inputText is required' });
+      }
+
+      try {
+        const emulator = emulatorOf(decodeURIComponent(text[1]));
+        respond(res, 200, toTextResponse(emulator, await emulator.send(inputText)));
+      } catch (e) {
+        respond(res, 500, { message: e instanceof Error ? e.message : String(e) });
+      }
+    });
+  });
+};
+
+/**
+ * Converts a turn to the body of a response of the emulator server.
+ *
+ * @param emulator
+ * @param turn
+ */
+const toTextResponse = (emulator: LexEmulator, turn: SimulatedTurn): EmulatorTextResponse => {
+  const da = turn.result.dialogAction;
+  const simulator = emulator.getSimulator();
+  const events = turn.steps.filter((step) => step.event).map((step) => step.event);
+  const intentName =
+    da.type === 'ElicitSlot' || da.type === 'ConfirmIntent'
+      ? da.intentName
+      : events.length > 0
+      ? events[events.length - 1].currentIntent.name
+      : simulator.getActiveIntentName();
+
+  return {
+    intentName,
+    slots: da.type === 'ElicitSlot' || da.type === 'ConfirmIntent' ? da.slots : simulator.getSlots(),
+    sessionAttributes: simulator.getSessionAttributes(),
+    message: turn.message,
+    dialogState: da.type === 'Close' ? da.fulfillmentState : da.type === 'Delegate' ? 'ReadyForFulfillment' : da.type,
+    slotToElicit: turn.slotToElicit,
+    responseCard: da.type !== 'Delegate' ? da.responseCard : undefined,
+  };
+};
@@ -0,0 +1,119 @@
+import { LexEvent, LexResult, LexResultFactory } from './lex-hook';
+import { DownstreamUnavailableError, RetryableUserInputError } from './errors';
+import { MessageCatalog, MessageKeys } from './message-catalog';
+
+/**
+ * When a handler throws, route converts the error into a LexResult.  An ErrorMapper configured via RouteOptions
+ * is consulted first; if it returns nothing, the default mapping below applies:
+ *
+ * - RetryableUserInputError with a Slot: the Slot is re-elicited, so the conversation continues
+ * - DownstreamUnavailableError: the conversation is closed, saying the service is unavailable
+ * - anything else: the conversation is closed with a generic error message
+ */
+
+/**
+ * Returns the LexResult for an error, or undefined to use the default mapping.
+ */
+export type ErrorMapper = (
+  error: unknown,
+  lexEvent: LexEvent,
+) => LexResult | undefined | Promise<LexResult | undefined>;
+
+const DEFAULT_MESSAGES: { [key: string]: string } = {
+  [MessageKeys.ROUTE_ERROR]: 'Unexpected error occurred',
+  [MessageKeys.RETRY_INPUT]: 'Sorry, I did not understand that.  Please try again.',
+  [MessageKeys.DOWNSTREAM_UNAVAILABLE]: 'Sorry, that service is unavailable right now.  Please try again later.',
+};
+
+/**
+ * Returns the message for a key from the catalog, if it has one, or the default message.
+ *
+ * @param key
+ * @param lexEvent
+ * @param messageCatalog
+ */
+const getMessage = (key: string, lexEvent: LexEvent, messageCatalog?: MessageCatalog): string => {
+  return messageCatalog && messageCatalog.has(key) ? messageCatalog.format(key, lexEvent) : DEFAULT_MESSAGES[key];
+};
+
+/**
+ * The default mapping of errors to LexResults.
+ *
+ * @param error
+ * @param lexEvent
+ * @param messageCatalog - optional source of localized messages
+ */
+export const defaultErrorMapper = (error: unknown, lexEvent: LexEvent, messageCatalog?: MessageCatalog): LexResult => {
+  const sessionAttributes = lexEvent ? lexEvent.sessionAttributes : undefined;
+
+  if (error instanceof RetryableUserInputError && error.slotToElicit && lexEvent && lexEvent.currentIntent) {
+    const slots = { ...lexEvent.currentIntent.slots, [error.slotToElicit]: null };
+    return LexResultFactory.dialogActionElicitSlot({
+      intentName: lexEvent.currentIntent.name,
+      slotToElicit: error.slotToElicit,
+      slots,
+      message: {
+        contentType: 'PlainText',
+        content: error.userMessage || getMessage(MessageKeys.RETRY_INPUT, lexEvent, messageCatalog),
+      },
+      sessionAttributes,
+    });
+  }
+
+  const key =
+    error instanceof DownstreamUnavailableError ? MessageKeys.DOWNSTREAM_UNAVAILABLE : MessageKeys.ROUTE_ERROR;
+  return LexResultFactory.dialogActionClose({
+    fulfillmentState: 'Failed',
+    message: {
+      contentType: 'PlainText',
+      content:
+        error instanceof RetryableUserInputError && error.userMessage
+          ? error.userMessage
+          : getMessage(key, lexEvent, messageCatalog),
+    },
+    sessionAttributes,
+  });
+};
+
+/**
+ * Re-usable ErrorMappers.
+ */
+export class ErrorMappers {
+  /**
+   * Offers a handoff, e.g. to a human agent, by asking the user to confirm a handoff Intent when a matching
+   * error is thrown.
+   *
+   * @param matches - returns true for the errors that warrant a handoff
+   * @param intentName - the handoff Intent
+   * @param message - e.g. 'Would you like to speak to an agent?'
+   */
+  public static handoff = (matches: (error: unknown) => boolean, intentName: string, message: string): ErrorMapper => (
+    error: unknown,
+    lexEvent: LexEvent,
+  ): LexResult | undefined => {
+    if (!matches(error)) return undefined;
+
+    return LexResultFactory.dialogActionConfirmIntent({
+      intentName,
+      slots: {},
+      message: { contentType: 'PlainText', content: message },
+      sessionAttributes: lexEvent ? lexEvent.sessionAttributes : undefined,
+    });
+  };
+
+  /**
+   * Combines ErrorMappers; the first to return a LexResult wins.
+   *
+   * @param mappers
+   */
+  public static firstOf = (...mappers: ErrorMapper[]): ErrorMapper => async (
+    error: unknown,
+    lexEvent: LexEvent,
+  ): Promise<LexResult | undefined> => {
+    for (const mapper of mappers) {
+      const lr = await mapper(error, lexEvent);
+      if (lr) return lr;
+    }
+    return undefined;
+  };
+}
@@ -0,0 +1,165 @@
+/**
+ * Errors thrown by this library.  All of them extend LexHookError, so clients can distinguish them from errors
+ * thrown by their own code.
+ */
+export class LexHookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+  }
+}
+
+/**
+ * Thrown when a SlotEvaluator rejects, throws, or does not complete within its timeout.
+ */
+export class SlotEvaluationError extends LexHookError {
+  /**
+   * The name of the Slot being evaluated
+   */
+  slotName: string;
+  /**
+   * true if the evaluation did not complete in time
+   */
+  timedOut: boolean;
+  /**
+   * The error thrown by the SlotEvaluator, if any
+   */
+  cause?: unknown;
+
+  constructor(slotName: string, timedOut: boolean, cause?: unknown) {
+    super(
+      timedOut
+        ? `evaluation of slot ${slotName} timed out`
+        : `evaluation of slot ${slotName} failed${cause ? ': ' + cause : ''}`,
+    );
+    this.slotName = slotName;
+    this.timedOut = timedOut;
+    if (cause) this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when session attributes exceed the size Lex allows.
+ */
+export class SessionSizeExceededError extends LexHookError {
+  /**
+   * The size of the session and request attributes, in bytes
+   */
+  size: number;
+  /**
+   * The maximum size, in bytes
+   */
+  limit: number;
+
+  constructor(size: number, limit: number) {
+    super(`session attributes size ${size} exceeds limit of ${limit} bytes`);
+    this.size = size;
+    this.limit = limit;
+  }
+}
+
+/**
+ * Thrown when a LexEvent does not have the shape Lex sends.
+ */
+export class MalformedLexEventError extends LexHookError {
+  /**
+   * Each problem found with the LexEvent
+   */
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`malformed Lex Event: ${issues.join('; ')}`);
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown by handlers when the user's input cannot be used, but the user may try again.  By default, route
+ * re-elicits the Slot, if one is specified, rather than closing the conversation.
+ */
+export class RetryableUserInputError extends LexHookError {
+  /**
+   * The Slot to re-elicit
+   */
+  slotToElicit?: string;
+  /**
+   * The message shown to the user
+   */
+  userMessage?: string;
+
+  constructor(message: string, slotToElicit?: string, userMessage?: string) {
+    super(message);
+    if (slotToElicit) this.slotToElicit = slotToElicit;
+    if (userMessage) this.userMessage = userMessage;
+  }
+}
+
+/**
+ * Thrown by handlers when a service they depend upon is unavailable.
+ */
+export class DownstreamUnavailableError extends LexHookError {
+  /**
+   * The name of the unavailable service
+   */
+  service?: string;
+  /**
+   * The error thrown by the service client, if any
+   */
+  cause?: unknown;
+
+  constructor(message: string, service?: string, cause?: unknown) {
+    super(message);
+    if (service) this.service = service;
+    if (cause) this.cause = cause;
+  }
+}
+
+/**
+ * Thrown by handlers when the conversation cannot continue, e.g. because of a bug or misconfiguration.
+ */
+export class FatalError extends LexHookError {
+  /**
+   * The underlying error, if any
+   */
+  cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    if (cause) this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when the SlotRules of a DefaultDialogEventHandler contain a cycle of dependencies.
+ */
+export class SlotDependencyCycleError extends LexHookError {
+  /**
+   * The Slot names forming the cycle, e.g. ['a', 'b', 'a']
+   */
+  cycle: string[];
+
+  constructor(cycle: string[]) {
+    super(`slot dependencies form a cycle: ${cycle.join(' -> ')}`);
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Thrown when a Slot value cannot be parsed into the type a DefaultFulfillmentEventHandler expects.
+ */
+export class SlotParseError extends LexHookError {
+  /**
+   * The name of the Slot
+   */
+  slotName: string;
+  /**
+   * The Slot value
+   */
+  value: string | null;
+
+  constructor(slotName: string, value: string | null, reason: string) {
+    super(`slot ${slotName} value ${JSON.stringify(value)} ${reason}`);
+    this.slotName = slotName;
+    this.value = value;
+  }
+}
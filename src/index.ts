@@ -1,2 +1,23 @@
 export * as LexHook from './lex-hook';
 export * as LexHookDialog from './default-dialog';
+export * as LexHookRouter from './intent-router';
+export * as LexHookV2 from './lex-v2';
+export * as LexHookErrors from './errors';
+export * as LexHookLogging from './logger';
+export * as LexHookResponses from './response-builder';
+export * as LexHookMessages from './message-catalog';
+export * as LexHookSession from './session-store';
+export * as LexHookBot from './bot-definition';
+export * as LexHookTesting from './conversation-simulator';
+export * as LexHookEvents from './lex-event-builder';
+export * as LexHookValidation from './lex-event-validator';
+export * as LexHookMiddleware from './middleware';
+export * as LexHookErrorMapping from './error-mapping';
+export * as LexHookSlotEvaluators from './slot-evaluators';
+export * as LexHookSentiment from './sentiment';
+export * as LexHookKendra from './kendra';
+export * as LexHookContext from './conversation-context';
+export * as LexHookFulfillment from './default-fulfillment';
+export * as LexHookBotExport from './bot-export';
+export * as LexHookEmulator from './emulator';
+export * as LexHookRecorder from './recorder';
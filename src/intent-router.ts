@@ -0,0 +1,154 @@
+import { Context } from 'aws-lambda';
+import { LexEvent, LexResult, LexEventHandler, LexResultFactory, RouteOptions, route } from './lex-hook';
+import { getDefaultLogger, lexEventFields } from './logger';
+
+/**
+ * A Bot typically has more than one Intent.  The IntentRouter allows a single Lambda function to serve all of them by
+ * mapping Intent names to LexEventHandler implementations.
+ */
+
+/**
+ * Clients using the IntentRouter use an implementation of this interface to configure routing.
+ */
+export interface IntentRouterConfig {
+  /**
+   * LexEventHandlers keyed by Intent name.  A name may contain '*' wildcards, e.g. 'Order*' matches both
+   * 'OrderFlowers' and 'OrderPizza'.
+   */
+  handlers?: { [intentName: string]: LexEventHandler };
+  /**
+   * An optional LexEventHandler used when no other handler matches the current Intent.
+   */
+  fallbackHandler?: LexEventHandler;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when no handler
+   * matches the current Intent and there is no fallback handler.  If not specified, the IntentRouter will return
+   * a Close dialog action message with fulfillment state = Failed.
+   */
+  unknownIntentResponder?: (lexEvent: LexEvent) => LexResult;
+  /**
+   * Optional configuration passed to the route function.
+   */
+  routeOptions?: RouteOptions;
+}
+
+/**
+ * A LexEventHandler registered against an Intent name that contains wildcards.
+ */
+interface WildcardHandler {
+  pattern: RegExp;
+  handler: LexEventHandler;
+}
+
+/**
+ * Dispatches each LexEvent to the LexEventHandler registered for currentIntent.name.
+ *
+ * Exact Intent names take precedence over wildcard names.  Wildcard names are matched in the order they were
+ * registered.  If nothing matches, the fallback handler (if any) is used, otherwise the unknown Intent responder.
+ *
+ * The route property is bound to the instance, so it can be exported directly as the Lambda entry point:
+ *
+ *     export const handler = new IntentRouter({ handlers: { OrderFlowers: orderFlowersHandler } }).route;
+ */
+export class IntentRouter {
+  /**
+   * handlers keyed by exact Intent name
+   */
+  protected exactHandlers: Map<string, LexEventHandler> = new Map();
+
+  /**
+   * handlers registered against Intent names containing wildcards, in registration order
+   */
+  protected wildcardHandlers: WildcardHandler[] = [];
+
+  /**
+   * configuration which parameterizes routing by this class.
+   */
+  protected config: IntentRouterConfig;
+
+  /**
+   * Close the conversation by default when the Intent is unknown.
+   *
+   * @param lexEvent
+   */
+  protected defaultUnknownIntentResponder = (lexEvent: LexEvent): LexResult => {
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Failed',
+      message: {
+        contentType: 'PlainText',
+        content: 'Sorry, I am not able to help with that',
+      },
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  };
+
+  constructor(config: IntentRouterConfig = {}) {
+    this.config = config;
+
+    if (this.config.handlers) {
+      Object.keys(this.config.handlers).forEach((intentName) =>
+        this.register(intentName, this.config.handlers[intentName]),
+      );
+    }
+  }
+
+  /**
+   * Registers a LexEventHandler for an Intent name, which may contain '*' wildcards.  Returns this router so
+   * registrations can be chained.
+   *
+   * @param intentName
+   * @param handler
+   */
+  public register(intentName: string, handler: LexEventHandler): IntentRouter {
+    if (intentName.indexOf('*') < 0) {
+      this.exactHandlers.set(intentName, handler);
+      return this;
+    }
+
+    const pattern = intentName
+      .split('*')
+      .map((s) => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    this.wildcardHandlers.push({ pattern: new RegExp(`^${pattern}$`), handler });
+
+    return this;
+  }
+
+  /**
+   * Returns the LexEventHandler that will handle an Intent, or null if there is none.
+   *
+   * @param intentName
+   */
+  public getHandler(intentName: string): LexEventHandler | null {
+    if (this.exactHandlers.has(intentName)) return this.exactHandlers.get(intentName);
+
+    for (const wh of this.wildcardHandlers) {
+      if (wh.pattern.test(intentName)) return wh.handler;
+    }
+
+    return this.config.fallbackHandler || null;
+  }
+
+  /**
+   * Finds the LexEventHandler for the current Intent and delegates to the library's route function.
+   *
+   * @param lexEvent
+   * @param ctx
+   */
+  public route = async (lexEvent: LexEvent, ctx: Context): Promise<LexResult> => {
+    const intentName = lexEvent.currentIntent ? lexEvent.currentIntent.name : undefined;
+    const handler = intentName ? this.getHandler(intentName) : null;
+
+    if (!handler) {
+      (this.config.routeOptions?.logger || getDefaultLogger()).warn(
+        `::IntentRouter.route(..) .. no LexEventHandler found for ${intentName}`,
+        lexEventFields(lexEvent),
+      );
+      if (this.config.unknownIntentResponder) return this.config.unknownIntentResponder(lexEvent);
+
+      return this.defaultUnknownIntentResponder(lexEvent);
+    }
+
+    return route(lexEvent, ctx, handler, this.config.routeOptions);
+  };
+}
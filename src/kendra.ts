@@ -0,0 +1,271 @@
+import { LexEvent, LexResult, EventHandler, LexResultFactory, ResponseCard } from './lex-hook';
+import { ResponseCardBuilder, ResponseCardLimits } from './response-builder';
+import { MessageCatalog } from './message-catalog';
+
+/**
+ * When the AMAZON.KendraSearchIntent is fulfilled, Lex queries an Amazon Kendra index with the user's utterance,
+ * and includes the result of the query in the LexEvent as its kendraResponse.  The types below model the parts of
+ * that result used by this library; see the Kendra Query API for the full format.
+ */
+
+export type KendraResultType = 'DOCUMENT' | 'QUESTION_ANSWER' | 'ANSWER';
+
+export type KendraConfidence = 'VERY_HIGH' | 'HIGH' | 'MEDIUM' | 'LOW';
+
+export interface KendraHighlight {
+  BeginOffset: number;
+  EndOffset: number;
+  TopAnswer?: boolean;
+  Type?: 'STANDARD' | 'THESAURUS_SYNONYM';
+}
+
+export interface KendraTextWithHighlights {
+  Text: string;
+  Highlights?: KendraHighlight[];
+}
+
+export interface KendraAdditionalResultAttribute {
+  /**
+   * e.g. 'AnswerText' or 'QuestionText'
+   */
+  Key: string;
+  ValueType: 'TEXT_WITH_HIGHLIGHTS_VALUE';
+  Value: { TextWithHighlightsValue: KendraTextWithHighlights };
+}
+
+export interface KendraQueryResultItem {
+  Id: string;
+  Type: KendraResultType;
+  AdditionalAttributes?: KendraAdditionalResultAttribute[];
+  DocumentId?: string;
+  DocumentTitle?: KendraTextWithHighlights;
+  DocumentExcerpt?: KendraTextWithHighlights;
+  DocumentURI?: string;
+  ScoreAttributes?: { ScoreConfidence: KendraConfidence };
+  FeedbackToken?: string;
+}
+
+export interface KendraQueryResult {
+  QueryId: string;
+  ResultItems: KendraQueryResultItem[];
+  TotalNumberOfResults?: number;
+}
+
+/**
+ * The answer chosen from a KendraQueryResult.
+ */
+export interface KendraAnswer {
+  text: string;
+  type: KendraResultType;
+  title?: string;
+  uri?: string;
+}
+
+const CONFIDENCE_ORDER: KendraConfidence[] = ['LOW', 'MEDIUM', 'HIGH', 'VERY_HIGH'];
+
+/**
+ * Helper functions for KendraQueryResults.
+ */
+export class KendraResults {
+  /**
+   * Returns the best answer with at least the minimum confidence, or undefined if there is none.  Suggested
+   * answers are preferred to FAQ answers, which are preferred to document excerpts.  Within a suggested answer,
+   * the top answer highlight is used if there is one.
+   *
+   * @param result
+   * @param minConfidence - defaults to 'LOW', i.e. any confidence
+   */
+  public static topAnswer = (
+    result: KendraQueryResult,
+    minConfidence: KendraConfidence = 'LOW',
+  ): KendraAnswer | undefined => {
+    const items = ((result && result.ResultItems) || []).filter((item) =>
+      KendraResults.isConfident(item, minConfidence),
+    );
+
+    for (const type of ['ANSWER', 'QUESTION_ANSWER', 'DOCUMENT'] as KendraResultType[]) {
+      for (const item of items.filter((i) => i.Type === type)) {
+        const text = KendraResults.getAnswerText(item);
+        if (text) {
+          return {
+            text,
+            type,
+            title: item.DocumentTitle ? item.DocumentTitle.Text : undefined,
+            uri: item.DocumentURI,
+          };
+        }
+      }
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Returns the distinct source documents of the result items, in order, up to a maximum number.
+   *
+   * @param result
+   * @param max
+   */
+  public static sources = (result: KendraQueryResult, max: number): { title: string; uri: string }[] => {
+    const sources: { title: string; uri: string }[] = [];
+
+    for (const item of (result && result.ResultItems) || []) {
+      if (sources.length >= max) break;
+      if (!item.DocumentURI || sources.some((s) => s.uri === item.DocumentURI)) continue;
+      sources.push({ title: item.DocumentTitle ? item.DocumentTitle.Text : item.DocumentURI, uri: item.DocumentURI });
+    }
+
+    return sources;
+  };
+
+  /**
+   * Does the item have at least the minimum confidence?  Items without a confidence are assumed to have it.
+   *
+   * @param item
+   * @param minConfidence
+   */
+  protected static isConfident = (item: KendraQueryResultItem, minConfidence: KendraConfidence): boolean => {
+    if (!item.ScoreAttributes) return true;
+    return CONFIDENCE_ORDER.indexOf(item.ScoreAttributes.ScoreConfidence) >= CONFIDENCE_ORDER.indexOf(minConfidence);
+  };
+
+  /**
+   * Returns the text of an item: its top answer highlight, its answer text, or its document excerpt.
+   *
+   * @param item
+   */
+  protected static getAnswerText = (item: KendraQueryResultItem): string | undefined => {
+    const answer = (item.AdditionalAttributes || []).find((a) => a.Key === 'AnswerText');
+    const answerText = answer ? answer.Value.TextWithHighlightsValue : undefined;
+
+    if (answerText && item.Type === 'ANSWER') {
+      const top = (answerText.Highlights || []).find((h) => h.TopAnswer);
+      if (top) return answerText.Text.substring(top.BeginOffset, top.EndOffset).trim();
+    }
+    if (answerText && answerText.Text) return answerText.Text.trim();
+
+    return item.DocumentExcerpt && item.DocumentExcerpt.Text ? item.DocumentExcerpt.Text.trim() : undefined;
+  };
+}
+
+/**
+ * Clients using the KendraFallbackEventHandler use an implementation of this interface to configure it.
+ */
+export interface KendraFallbackConfig {
+  /**
+   * Answers with a lower confidence are ignored.  Defaults to 'LOW', i.e. any confidence.
+   */
+  minConfidence?: KendraConfidence;
+  /**
+   * Answers are truncated to this many characters.  Defaults to 1000, the maximum length of a Lex message.
+   */
+  maxAnswerLength?: number;
+  /**
+   * The maximum number of source documents offered as links in a response card.  Defaults to 3; 0 for no card.
+   */
+  maxSources?: number;
+  /**
+   * The message used when there is no answer.  Defaults to 'Sorry, I could not find an answer to that.'
+   */
+  noAnswerMessage?: string;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result when there is no
+   * answer, e.g. to offer a handoff.  If not specified, the conversation is closed with the noAnswerMessage.
+   */
+  noAnswerResponder?: (lexEvent: LexEvent) => LexResult | Promise<LexResult>;
+  /**
+   * If specified, the answer is included in a message resolved from this catalog, using the key
+   * KendraMessageKeys.ANSWER and the variables {answer} and {title}, and the noAnswerMessage is treated as a key.
+   */
+  messageCatalog?: MessageCatalog;
+}
+
+/**
+ * Keys of the messages used by the KendraFallbackEventHandler.
+ */
+export const KendraMessageKeys = {
+  ANSWER: 'lexhook.kendra.answer',
+};
+
+/**
+ * An EventHandler for the AMAZON.KendraSearchIntent, e.g. as the fallback of a Bot.  Closes the conversation
+ * with the best answer found by Kendra, with links to the source documents in a response card, or with a
+ * no-answer message.
+ */
+export class KendraFallbackEventHandler implements EventHandler {
+  protected config: KendraFallbackConfig;
+
+  constructor(config: KendraFallbackConfig = {}) {
+    this.config = {
+      minConfidence: 'LOW',
+      maxAnswerLength: 1000,
+      maxSources: 3,
+      noAnswerMessage: 'Sorry, I could not find an answer to that.',
+      ...config,
+    };
+  }
+
+  public async handle(lexEvent: LexEvent): Promise<LexResult> {
+    const answer = KendraResults.topAnswer(lexEvent.kendraResponse, this.config.minConfidence);
+
+    if (!answer) {
+      if (this.config.noAnswerResponder) return this.config.noAnswerResponder(lexEvent);
+
+      return LexResultFactory.dialogActionClose({
+        fulfillmentState: 'Fulfilled',
+        message: { contentType: 'PlainText', content: this.formatMessage(lexEvent, this.config.noAnswerMessage) },
+        sessionAttributes: lexEvent.sessionAttributes,
+      });
+    }
+
+    return LexResultFactory.dialogActionClose({
+      fulfillmentState: 'Fulfilled',
+      message: { contentType: 'PlainText', content: this.formatAnswer(lexEvent, answer) },
+      responseCard: this.getResponseCard(lexEvent.kendraResponse),
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  }
+
+  /**
+   * Returns the message content for an answer, truncated to the maximum length.
+   *
+   * @param lexEvent
+   * @param answer
+   */
+  protected formatAnswer(lexEvent: LexEvent, answer: KendraAnswer): string {
+    const catalog = this.config.messageCatalog;
+    const content =
+      catalog && catalog.has(KendraMessageKeys.ANSWER)
+        ? catalog.format(KendraMessageKeys.ANSWER, lexEvent, { answer: answer.text, title: answer.title })
+        : answer.text;
+
+    const max = this.config.maxAnswerLength;
+    return content.length > max ? `${content.substring(0, max - 3).trimEnd()}...` : content;
+  }
+
+  /**
+   * Returns a response card with an attachment linking to each source document, if any.
+   *
+   * @param result
+   */
+  protected getResponseCard(result: KendraQueryResult): ResponseCard | undefined {
+    const sources = KendraResults.sources(result, Math.min(this.config.maxSources, ResponseCardLimits.attachments));
+    if (sources.length === 0) return undefined;
+
+    const builder = new ResponseCardBuilder();
+    sources.forEach((s) =>
+      builder.attachment().title(s.title.substring(0, ResponseCardLimits.titleLength)).attachmentLinkUrl(s.uri),
+    );
+    return builder.build();
+  }
+
+  /**
+   * Resolves a message using the configured MessageCatalog.  Without a catalog, the message is returned as is.
+   *
+   * @param lexEvent
+   * @param message
+   */
+  protected formatMessage(lexEvent: LexEvent, message: string): string {
+    return this.config.messageCatalog ? this.config.messageCatalog.format(message, lexEvent) : message;
+  }
+}
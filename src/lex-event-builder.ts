@@ -0,0 +1,210 @@
+import { LexEvent, IntentSummary } from './lex-hook';
+import { KendraQueryResult } from './kendra';
+
+/**
+ * A fluent builder of LexEvents with sensible defaults, intended for tests.  Unless specified, slotDetails are
+ * derived from Slot values, and every optional part of the event is null.
+ *
+ *     const lexEvent = new LexEventBuilder('OrderFlowers')
+ *       .slot('FlowerType', 'roses')
+ *       .slot('PickupDate', null)
+ *       .sessionAttribute('name', 'Pat')
+ *       .build();
+ */
+export class LexEventBuilder {
+  private lexEvent: LexEvent;
+  private explicitSlotDetails: Set<string> = new Set();
+
+  constructor(intentName = 'TestIntent') {
+    this.lexEvent = {
+      currentIntent: {
+        name: intentName,
+        slots: {},
+        slotDetails: {},
+        confirmationStatus: 'None',
+      },
+      bot: {
+        name: 'TestBot',
+        alias: '$LATEST',
+        version: '$LATEST',
+      },
+      userId: 'test-user',
+      inputTranscript: '',
+      invocationSource: 'DialogCodeHook',
+      outputDialogMode: 'Text',
+      messageVersion: '1.0',
+      sessionAttributes: {},
+      requestAttributes: null,
+      recentIntentSummaryView: null,
+      sentimentResponse: null,
+      kendraResponse: null,
+    };
+  }
+
+  public intent(name: string): LexEventBuilder {
+    this.lexEvent.currentIntent.name = name;
+    return this;
+  }
+
+  /**
+   * Sets a Slot value.  Its slotDetails default to the value itself, unless specified.
+   *
+   * @param name
+   * @param value
+   * @param details - the original value, and the resolutions, of the Slot
+   */
+  public slot(
+    name: string,
+    value: string | null,
+    details?: { originalValue?: string; resolutions?: string[] },
+  ): LexEventBuilder {
+    this.lexEvent.currentIntent.slots[name] = value;
+
+    if (details) {
+      this.explicitSlotDetails.add(name);
+      this.lexEvent.currentIntent.slotDetails[name] = {
+        originalValue: details.originalValue ?? value,
+        resolutions: (details.resolutions || []).map((r) => ({ value: r })),
+      };
+    }
+
+    return this;
+  }
+
+  public slots(slots: { [name: string]: string | null }): LexEventBuilder {
+    Object.keys(slots).forEach((name) => this.slot(name, slots[name]));
+    return this;
+  }
+
+  public confirmationStatus(confirmationStatus: LexEvent['currentIntent']['confirmationStatus']): LexEventBuilder {
+    this.lexEvent.currentIntent.confirmationStatus = confirmationStatus;
+    return this;
+  }
+
+  public bot(name: string, alias = '$LATEST', version = '$LATEST'): LexEventBuilder {
+    this.lexEvent.bot = { name, alias, version };
+    return this;
+  }
+
+  public userId(userId: string): LexEventBuilder {
+    this.lexEvent.userId = userId;
+    return this;
+  }
+
+  public inputTranscript(inputTranscript: string): LexEventBuilder {
+    this.lexEvent.inputTranscript = inputTranscript;
+    return this;
+  }
+
+  /**
+   * The event is for the dialog code hook.  This is the default.
+   */
+  public dialog(): LexEventBuilder {
+    this.lexEvent.invocationSource = 'DialogCodeHook';
+    return this;
+  }
+
+  /**
+   * The event is for the fulfillment code hook.
+   */
+  public fulfillment(): LexEventBuilder {
+    this.lexEvent.invocationSource = 'FulfillmentCodeHook';
+    return this;
+  }
+
+  public outputDialogMode(outputDialogMode: LexEvent['outputDialogMode']): LexEventBuilder {
+    this.lexEvent.outputDialogMode = outputDialogMode;
+    return this;
+  }
+
+  public sessionAttribute(key: string, value: string): LexEventBuilder {
+    this.lexEvent.sessionAttributes[key] = value;
+    return this;
+  }
+
+  public sessionAttributes(sessionAttributes: { [key: string]: string }): LexEventBuilder {
+    this.lexEvent.sessionAttributes = { ...this.lexEvent.sessionAttributes, ...sessionAttributes };
+    return this;
+  }
+
+  public requestAttributes(requestAttributes: { [key: string]: string }): LexEventBuilder {
+    this.lexEvent.requestAttributes = { ...(this.lexEvent.requestAttributes || {}), ...requestAttributes };
+    return this;
+  }
+
+  /**
+   * Appends a summary to the recentIntentSummaryView.  Omitted fields default to an empty summary of the
+   * current Intent.
+   *
+   * @param summary
+   */
+  public recentIntentSummary(summary: Partial<IntentSummary>): LexEventBuilder {
+    const view = this.lexEvent.recentIntentSummaryView || [];
+    view.push({
+      intentName: this.lexEvent.currentIntent.name,
+      checkpointLabel: undefined,
+      slots: {},
+      confirmationStatus: 'None',
+      dialogActionType: 'ElicitSlot',
+      fulfillmentState: undefined,
+      slotToElicit: undefined,
+      ...summary,
+    });
+    this.lexEvent.recentIntentSummaryView = view;
+    return this;
+  }
+
+  /**
+   * Sets the sentiment analysis of the input.  Scores not specified default to 0, except that the score of the
+   * label defaults to 1.
+   *
+   * @param label - 'POSITIVE', 'NEGATIVE', 'NEUTRAL' or 'MIXED'
+   * @param scores
+   */
+  public sentiment(
+    label: string,
+    scores: Partial<LexEvent['sentimentResponse']['SentimentScore']> = {},
+  ): LexEventBuilder {
+    const score = (name: string): number => (label.toUpperCase() === name.toUpperCase() ? 1 : 0);
+    this.lexEvent.sentimentResponse = {
+      SentimentLabel: label,
+      SentimentScore: {
+        Mixed: score('Mixed'),
+        Positive: score('Positive'),
+        Neutral: score('Neutral'),
+        Negative: score('Negative'),
+        ...scores,
+      },
+    };
+    return this;
+  }
+
+  /**
+   * Sets the result of the Kendra query made for the AMAZON.KendraSearchIntent.
+   *
+   * @param kendraResponse
+   */
+  public kendraResponse(kendraResponse: KendraQueryResult): LexEventBuilder {
+    this.lexEvent.kendraResponse = kendraResponse;
+    return this;
+  }
+
+  /**
+   * Returns a new LexEvent; the builder can be used again.
+   */
+  public build(): LexEvent {
+    const lexEvent: LexEvent = JSON.parse(JSON.stringify(this.lexEvent));
+    const currentIntent = lexEvent.currentIntent;
+
+    Object.keys(currentIntent.slots).forEach((name) => {
+      if (this.explicitSlotDetails.has(name)) return;
+      const value = currentIntent.slots[name];
+      currentIntent.slotDetails[name] = {
+        originalValue: value,
+        resolutions: value === null ? [] : [{ value }],
+      };
+    });
+
+    return lexEvent;
+  }
+}
@@ -0,0 +1,71 @@
+import { LexEvent } from './lex-hook';
+
+/**
+ * Runtime validation of incoming LexEvents.  The route function uses this to reject malformed events with a
+ * diagnostic, rather than letting them fail deep within a handler.
+ */
+
+const INVOCATION_SOURCES = ['DialogCodeHook', 'FulfillmentCodeHook'];
+const CONFIRMATION_STATUSES = ['None', 'Confirmed', 'Denied'];
+const MESSAGE_VERSIONS = ['1.0'];
+
+const isObject = (o: unknown): boolean => o !== null && typeof o === 'object' && !Array.isArray(o);
+
+const isStringMap = (o: unknown): boolean =>
+  isObject(o) && Object.keys(o).every((k) => typeof (o as { [key: string]: unknown })[k] === 'string');
+
+/**
+ * Returns a description of each problem found with a LexEvent.  An empty array means the LexEvent is valid.
+ *
+ * @param lexEvent
+ */
+export const validateLexEvent = (lexEvent: LexEvent): string[] => {
+  const issues: string[] = [];
+
+  if (!isObject(lexEvent)) return ['LexEvent is not an object'];
+
+  if (MESSAGE_VERSIONS.indexOf(lexEvent.messageVersion) < 0)
+    issues.push(`unknown messageVersion ${JSON.stringify(lexEvent.messageVersion)}`);
+  if (INVOCATION_SOURCES.indexOf(lexEvent.invocationSource) < 0)
+    issues.push(`unknown invocationSource ${JSON.stringify(lexEvent.invocationSource)}`);
+  if (typeof lexEvent.userId !== 'string') issues.push('missing userId');
+  if (!isObject(lexEvent.bot) || typeof lexEvent.bot.name !== 'string') issues.push('missing bot name');
+  if (lexEvent.sessionAttributes != null && !isStringMap(lexEvent.sessionAttributes))
+    issues.push('sessionAttributes values must be strings');
+  if (lexEvent.requestAttributes != null && !isStringMap(lexEvent.requestAttributes))
+    issues.push('requestAttributes values must be strings');
+
+  const currentIntent = lexEvent.currentIntent;
+  if (!isObject(currentIntent)) {
+    issues.push('missing currentIntent');
+    return issues;
+  }
+
+  if (typeof currentIntent.name !== 'string' || !currentIntent.name) issues.push('missing currentIntent.name');
+  if (CONFIRMATION_STATUSES.indexOf(currentIntent.confirmationStatus) < 0)
+    issues.push(`unknown currentIntent.confirmationStatus ${JSON.stringify(currentIntent.confirmationStatus)}`);
+
+  if (!isObject(currentIntent.slots)) {
+    issues.push('missing currentIntent.slots');
+  } else {
+    Object.keys(currentIntent.slots).forEach((slotName) => {
+      const value = currentIntent.slots[slotName];
+      if (value !== null && typeof value !== 'string') issues.push(`slot ${slotName} value is not a string or null`);
+    });
+  }
+
+  if (currentIntent.slotDetails != null) {
+    if (!isObject(currentIntent.slotDetails)) {
+      issues.push('currentIntent.slotDetails is not an object');
+    } else if (isObject(currentIntent.slots)) {
+      Object.keys(currentIntent.slotDetails).forEach((slotName) => {
+        if (!(slotName in currentIntent.slots)) issues.push(`slotDetails.${slotName} does not match any slot`);
+      });
+    }
+  }
+
+  if (lexEvent.recentIntentSummaryView != null && !Array.isArray(lexEvent.recentIntentSummaryView))
+    issues.push('recentIntentSummaryView is not an array');
+
+  return issues;
+};
@@ -2,11 +2,31 @@ import {
   LexEvent as AWSLexEvent, 
   LexResult as AWSLexResult, 
   Context,
+  LexDialogActionBase,
   LexDialogActionClose,
+  LexDialogActionConfirmIntent,
   LexDialogActionDelegate,
+  LexDialogActionElicitIntent,
   LexDialogActionElicitSlot } from 'aws-lambda';
+import { Logger, getDefaultLogger, lexEventFields } from './logger';
+import { MessageCatalog } from './message-catalog';
+import { validateLexEvent } from './lex-event-validator';
+import { MalformedLexEventError } from './errors';
+import { Middleware, MiddlewareContext, runMiddleware } from './middleware';
+import { ErrorMapper, defaultErrorMapper } from './error-mapping';
+import { KendraQueryResult } from './kendra';
 
-export interface LexEvent extends AWSLexEvent {
+/**
+ * The Slot values of an Intent, by Slot name.  S is the union of the Slot names of the Intent, e.g.
+ * 'FlowerType' | 'PickupDate', so that Slot names are checked at compile time; by default any name.
+ */
+export type Slots<S extends string = string> = { [name in S]: string | null };
+
+/**
+ * A LexEvent, optionally parameterized by the union of the Slot names of its Intent, see Slots.
+ */
+export interface LexEvent<S extends string = string> extends AWSLexEvent {
+  currentIntent: Omit<AWSLexEvent['currentIntent'], 'slots'> & { slots: Slots<S> };
   recentIntentSummaryView: IntentSummary[];
   sentimentResponse: {
     SentimentScore: {
@@ -17,7 +37,10 @@ export interface LexEvent extends AWSLexEvent {
     };
     SentimentLabel: string;
   };
-  kendraResponse: string;
+  /**
+   * The result of the Kendra query made when the AMAZON.KendraSearchIntent is fulfilled, or null.
+   */
+  kendraResponse: KendraQueryResult;
 }
 
 /**
@@ -45,6 +68,12 @@ export interface ResponseMessage {
   content: string;
 }
 
+/**
+ * A response card with generic attachments, displayed by channels such as Facebook Messenger and Slack.
+ * See ResponseCardBuilder.
+ */
+export type ResponseCard = LexDialogActionBase['responseCard'];
+
 /**
  * Lex-provided messages are handled by implementations of this interface.
  *
@@ -57,18 +86,53 @@ export interface ResponseMessage {
  * ready to completed.
  *
  */
-export interface LexEventHandler {
-  dialog: EventHandler;
-  fulfill: EventHandler;
+export interface LexEventHandler<S extends string = string> {
+  dialog: EventHandler<S>;
+  fulfill: EventHandler<S>;
 }
 
 /**
  * Every mesage from Lex is handled by an implementation of this Interface
  */
-export interface EventHandler {
-  handle: (lexEvent: LexEvent) => Promise<LexResult>;
+export interface EventHandler<S extends string = string> {
+  handle: (lexEvent: LexEvent<S>) => Promise<LexResult>;
 }
 
+/**
+ * Optional configuration of the route function.
+ */
+export interface RouteOptions {
+  /**
+   * The Logger used by route.  If not specified, the default Logger is used.
+   */
+  logger?: Logger;
+  /**
+   * If specified, the messages included in the LexResult returned when a handler throws are resolved from
+   * this catalog, using the keys MessageKeys.ROUTE_ERROR, RETRY_INPUT and DOWNSTREAM_UNAVAILABLE.
+   */
+  messageCatalog?: MessageCatalog;
+  /**
+   * An optional function that converts an error thrown while handling a LexEvent into a LexResult, e.g. to
+   * re-elicit a Slot or offer a handoff instead of closing the conversation.  If it returns nothing, or is not
+   * specified, defaultErrorMapper is used.
+   */
+  errorMapper?: ErrorMapper;
+  /**
+   * Rethrow errors, after logging them, rather than returning a LexResult?  Either a boolean, or a function
+   * deciding per error, e.g. (e) => e instanceof FatalError.  Rethrown errors fail the Lambda invocation, so
+   * Lambda-level retries and alarms fire.  Defaults to false.
+   */
+  rethrow?: boolean | ((error: unknown) => boolean);
+  /**
+   * Validate the shape of each LexEvent before it is handled?  Defaults to true.  A malformed LexEvent causes a
+   * MalformedLexEventError listing each problem found.
+   */
+  validateEvent?: boolean;
+  /**
+   * Middleware wrapping the EventHandler, in the order the before functions are invoked.  See runMiddleware.
+   */
+  middleware?: Middleware[];
+}
 
 
 /**
@@ -80,38 +144,51 @@ export interface EventHandler {
  * Each LexEvent is specific to either Dialog or Fulfillment.  The route function evalutes invocation source
  * to determine which it is and then delegates to the appropriate LexEventHandler implementation.
  *
+ * The LexEvent is logged at DEBUG level, redacted according to the Logger's configuration.  Unless disabled via
+ * options, it is then validated, see validateLexEvent, and handled within the middleware chain, if any.
+ *
+ * If handling throws, the error is logged and converted into a LexResult by the configured ErrorMapper, or by
+ * defaultErrorMapper, unless options say to rethrow it.
+ *
  * @param lexEvent
  * @param ctx
  * @param eventHandler
+ * @param options
  */
-export const route = async (lexEvent: LexEvent, ctx: Context, eventHandler: LexEventHandler): Promise<LexResult> => {
-  console.info('::route(:LexEvent, ..).. ');
-  console.log(JSON.stringify(lexEvent));
+export const route = async (
+  lexEvent: LexEvent,
+  ctx: Context,
+  eventHandler: LexEventHandler,
+  options: RouteOptions = {},
+): Promise<LexResult> => {
+  const logger: Logger = (options.logger || getDefaultLogger()).child(lexEventFields(lexEvent));
+  logger.info('::route(:LexEvent, ..).. ');
+  logger.debug('LexEvent received', { lexEvent });
 
   try {
-    if (lexEvent.invocationSource === 'DialogCodeHook') {
-      const r: LexResult = await eventHandler.dialog.handle(lexEvent);
-      return r;
-    }
-
-    if (lexEvent.invocationSource === 'FulfillmentCodeHook') {
-      const r: LexResult = await eventHandler.fulfill.handle(lexEvent);
-      return r;
+    if (options.validateEvent !== false) {
+      const issues: string[] = validateLexEvent(lexEvent);
+      if (issues.length > 0) throw new MalformedLexEventError(issues);
     }
 
-    throw new Error('malformed Lex Event');
+    const context: MiddlewareContext = { ctx, logger, state: {} };
+    const r: LexResult = await runMiddleware(options.middleware || [], lexEvent, context, (le: LexEvent) => {
+      if (le.invocationSource === 'DialogCodeHook') return eventHandler.dialog.handle(le);
+      if (le.invocationSource === 'FulfillmentCodeHook') return eventHandler.fulfill.handle(le);
+      throw new Error('malformed Lex Event');
+    });
+    return r;
   } catch (e) {
-    console.log('::route(..) - threw exception! ' + e);
-    return Promise.resolve(
-      LexResultFactory.dialogActionClose({
-        fulfillmentState: 'Failed',
-        message: {
-          contentType: 'PlainText',
-          content: 'Unxpected error occurred',
-        },
-        sessionAttributes: lexEvent.sessionAttributes,
-      }),
-    );
+    logger.error('::route(..) - threw exception!', {
+      error: e,
+      issues: e instanceof MalformedLexEventError ? e.issues : undefined,
+    });
+
+    const rethrow = typeof options.rethrow === 'function' ? options.rethrow(e) : options.rethrow;
+    if (rethrow) throw e;
+
+    const mapped: LexResult = options.errorMapper ? await options.errorMapper(e, lexEvent) : undefined;
+    return mapped || defaultErrorMapper(e, lexEvent, options.messageCatalog);
   }
 };
 
@@ -137,6 +214,61 @@ export class Util {
 
     return isValidDate;
   };
+
+  /**
+   * Parses a currency amount, e.g. '$1,234.56', '-€5' or '$-0.99', returning its numeric value, or undefined if
+   * it is not a currency amount.  Thousands separators must be correctly placed, and there may be at most 2
+   * decimal places.
+   *
+   * @param value
+   */
+  public static parseCurrency = (value: string): number | undefined => {
+    if (!value) return undefined;
+
+    const match = /^(-)?\s*[$€£¥]?\s*(-)?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d{1,2})?$/.exec(value.trim());
+    if (!match || (match[1] && match[2])) return undefined;
+
+    const amount = Number(match[3].replace(/,/g, '') + (match[4] || ''));
+    return match[1] || match[2] ? -amount : amount;
+  };
+
+  /**
+   * Parses an ISO 8601 duration, as produced by the AMAZON.DURATION Slot type, e.g. 'PT15M' or 'P2DT3H', returning
+   * its length in seconds, or undefined if it is not a duration.  Years and months are taken as 365 and 30 days.
+   *
+   * @param value
+   */
+  public static parseDuration = (value: string): number | undefined => {
+    const pattern = /^P(?:(\d+)Y)?(?:(\d+)M)?(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/;
+    const match = pattern.exec(value || '');
+    if (!match || value === 'P' || value.endsWith('T')) return undefined;
+
+    const [years, months, weeks, days, hours, minutes, seconds] = match.slice(1).map((v) => Number(v || 0));
+    const day = 24 * 60 * 60;
+    return years * 365 * day + months * 30 * day + weeks * 7 * day + days * day + hours * 3600 + minutes * 60 + seconds;
+  };
+
+  /**
+   * The Levenshtein distance between two strings, i.e. the number of single character insertions, deletions and
+   * substitutions needed to change one into the other.
+   *
+   * @param a
+   * @param b
+   */
+  public static editDistance = (a: string, b: string): number => {
+    let previous: number[] = Array.from({ length: b.length + 1 }, (v, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current: number[] = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  };
 }
 
 /**
@@ -151,6 +283,7 @@ export class LexResultFactory {
   public static dialogActionClose = (param: {
     fulfillmentState: 'Fulfilled' | 'Failed';
     message?: ResponseMessage;
+    responseCard?: ResponseCard;
     sessionAttributes?: { [key: string]: string };
     recentIntentSummaryView?: IntentSummary[];
   }): LexResult => {
@@ -164,6 +297,7 @@ export class LexResultFactory {
     };
 
     if (param.message) dac.message = param.message;
+    if (param.responseCard) dac.responseCard = param.responseCard;
 
     LexResultFactory.maybeAddToResult({
       lexResult: lr,
@@ -203,15 +337,16 @@ export class LexResultFactory {
   };
 
   /**
-   * LexResult with ElicitSlot
+   * LexResult with ElicitSlot.  With the Slots of a typed LexEvent, slotToElicit must be one of its Slot names.
    *
    * @param param
    */
-  public static dialogActionElicitSlot = (param: {
+  public static dialogActionElicitSlot = <S extends string = string>(param: {
     intentName: string;
-    slotToElicit: string;
-    slots: { [name: string]: string | null };
+    slotToElicit: S;
+    slots: Slots<S>;
     message?: ResponseMessage;
+    responseCard?: ResponseCard;
     sessionAttributes?: { [key: string]: string };
     recentIntentSummaryView?: IntentSummary[];
   }): LexResult => {
@@ -227,6 +362,73 @@ export class LexResultFactory {
     };
 
     if (param.message) daes.message = param.message;
+    if (param.responseCard) daes.responseCard = param.responseCard;
+
+    LexResultFactory.maybeAddToResult({
+      lexResult: lr,
+      sessionAttributes: param.sessionAttributes,
+      recentIntentSummaryView: param.recentIntentSummaryView,
+    });
+
+    return lr;
+  };
+
+  /**
+   * LexResult with ConfirmIntent
+   *
+   * @param param
+   */
+  public static dialogActionConfirmIntent = (param: {
+    intentName: string;
+    slots: { [name: string]: string | null };
+    message?: ResponseMessage;
+    responseCard?: ResponseCard;
+    sessionAttributes?: { [key: string]: string };
+    recentIntentSummaryView?: IntentSummary[];
+  }): LexResult => {
+    const daci: LexDialogActionConfirmIntent = {
+      type: 'ConfirmIntent',
+      intentName: param.intentName,
+      slots: param.slots,
+    };
+
+    const lr: LexResult = {
+      dialogAction: daci,
+    };
+
+    if (param.message) daci.message = param.message;
+    if (param.responseCard) daci.responseCard = param.responseCard;
+
+    LexResultFactory.maybeAddToResult({
+      lexResult: lr,
+      sessionAttributes: param.sessionAttributes,
+      recentIntentSummaryView: param.recentIntentSummaryView,
+    });
+
+    return lr;
+  };
+
+  /**
+   * LexResult with ElicitIntent
+   *
+   * @param param
+   */
+  public static dialogActionElicitIntent = (param: {
+    message?: ResponseMessage;
+    responseCard?: ResponseCard;
+    sessionAttributes?: { [key: string]: string };
+    recentIntentSummaryView?: IntentSummary[];
+  }): LexResult => {
+    const daei: LexDialogActionElicitIntent = {
+      type: 'ElicitIntent',
+    };
+
+    const lr: LexResult = {
+      dialogAction: daei,
+    };
+
+    if (param.message) daei.message = param.message;
+    if (param.responseCard) daei.responseCard = param.responseCard;
 
     LexResultFactory.maybeAddToResult({
       lexResult: lr,
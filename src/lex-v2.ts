@@ -0,0 +1,499 @@
+import { Context } from 'aws-lambda';
+import { LexEvent, LexResult, LexEventHandler, EventHandler, RouteOptions } from './lex-hook';
+import { MalformedLexEventError } from './errors';
+import { defaultErrorMapper } from './error-mapping';
+import { Logger, LogFields, getDefaultLogger } from './logger';
+
+/**
+ * Lex V2 code hooks exchange messages in a format that differs from Lex V1.  The types below model that format, and
+ * the LexV2Adapter allows the V1-oriented handlers of this library, e.g. DefaultDialogEventHandler and the
+ * SlotEvaluator family, to be used unchanged with a V2 Bot.
+ *
+ * see: https://docs.aws.amazon.com/lexv2/latest/dg/lambda.html
+ */
+
+export interface LexV2SlotValue {
+  originalValue: string;
+  interpretedValue: string;
+  resolvedValues: string[];
+}
+
+export interface LexV2Slot {
+  shape?: 'Scalar' | 'List';
+  value: LexV2SlotValue;
+  values?: LexV2Slot[];
+}
+
+export interface LexV2Slots {
+  [name: string]: LexV2Slot | null;
+}
+
+export interface LexV2Intent {
+  name: string;
+  slots: LexV2Slots;
+  state: 'Failed' | 'Fulfilled' | 'FulfillmentInProgress' | 'InProgress' | 'ReadyForFulfillment' | 'Waiting';
+  confirmationState: 'Confirmed' | 'Denied' | 'None';
+  kendraResponse?: unknown;
+}
+
+export interface LexV2SentimentResponse {
+  sentiment: 'MIXED' | 'NEGATIVE' | 'NEUTRAL' | 'POSITIVE';
+  sentimentScore: {
+    mixed: number;
+    negative: number;
+    neutral: number;
+    positive: number;
+  };
+}
+
+export interface LexV2Interpretation {
+  intent: LexV2Intent;
+  nluConfidence?: { score: number };
+  sentimentResponse?: LexV2SentimentResponse;
+}
+
+export interface LexV2DialogAction {
+  type: 'Close' | 'ConfirmIntent' | 'Delegate' | 'ElicitIntent' | 'ElicitSlot';
+  slotToElicit?: string;
+}
+
+export interface LexV2ActiveContext {
+  name: string;
+  contextAttributes: { [key: string]: string };
+  timeToLive: { timeToLiveInSeconds: number; turnsToLive: number };
+}
+
+export interface LexV2SessionState {
+  activeContexts?: LexV2ActiveContext[];
+  sessionAttributes?: { [key: string]: string };
+  dialogAction?: LexV2DialogAction;
+  intent?: LexV2Intent;
+  originatingRequestId?: string;
+}
+
+export interface LexV2Event {
+  messageVersion: string;
+  invocationSource: 'DialogCodeHook' | 'FulfillmentCodeHook';
+  inputMode: 'DTMF' | 'Speech' | 'Text';
+  responseContentType: string;
+  sessionId: string;
+  inputTranscript: string;
+  bot: {
+    id: string;
+    name: string;
+    aliasId: string;
+    aliasName?: string;
+    localeId: string;
+    version: string;
+  };
+  interpretations: LexV2Interpretation[];
+  proposedNextState?: {
+    dialogAction: LexV2DialogAction;
+    intent: LexV2Intent;
+  };
+  requestAttributes?: { [key: string]: string };
+  sessionState: LexV2SessionState;
+}
+
+export interface LexV2ImageResponseCard {
+  title: string;
+  subtitle?: string;
+  imageUrl?: string;
+  buttons?: { text: string; value: string }[];
+}
+
+export interface LexV2Message {
+  contentType: 'CustomPayload' | 'ImageResponseCard' | 'PlainText' | 'SSML';
+  content?: string;
+  imageResponseCard?: LexV2ImageResponseCard;
+}
+
+export interface LexV2Result {
+  sessionState: LexV2SessionState & { dialogAction: LexV2DialogAction };
+  messages?: LexV2Message[];
+  requestAttributes?: { [key: string]: string };
+}
+
+/**
+ * Every V2 message from Lex is handled by an implementation of this Interface
+ */
+export interface LexV2EventHandler {
+  handle: (lexEvent: LexV2Event) => Promise<LexV2Result>;
+}
+
+/**
+ * The V2 counterpart of LexEventHandler.
+ */
+export interface LexV2EventHandlerSet {
+  dialog: LexV2EventHandler;
+  fulfill: LexV2EventHandler;
+}
+
+/**
+ * The RouteOptions that apply to routeV2.  Middleware and event validation work on V1 LexEvents, so are not
+ * supported.
+ */
+export type RouteV2Options = Pick<RouteOptions, 'logger' | 'messageCatalog' | 'errorMapper' | 'rethrow'>;
+
+/**
+ * This is the entry point for all LexV2Event message handling.  It is the V2 counterpart of the route function, and
+ * likewise dispatches on invocation source.
+ *
+ * If handling throws, the error is logged and converted into a result by the configured ErrorMapper, or by
+ * defaultErrorMapper, unless options say to rethrow it.
+ *
+ * @param lexEvent
+ * @param ctx
+ * @param eventHandler
+ * @param options
+ */
+export const routeV2 = async (
+  lexEvent: LexV2Event,
+  ctx: Context,
+  eventHandler: LexV2EventHandlerSet,
+  options: RouteV2Options = {},
+): Promise<LexV2Result> => {
+  const logger: Logger = (options.logger || getDefaultLogger()).child(lexV2EventFields(lexEvent));
+  logger.info('::routeV2(:LexV2Event, ..).. ');
+
+  try {
+    if (lexEvent.invocationSource === 'DialogCodeHook') {
+      const r: LexV2Result = await eventHandler.dialog.handle(lexEvent);
+      return r;
+    }
+
+    if (lexEvent.invocationSource === 'FulfillmentCodeHook') {
+      const r: LexV2Result = await eventHandler.fulfill.handle(lexEvent);
+      return r;
+    }
+
+    throw new MalformedLexEventError([`invocationSource ${lexEvent.invocationSource} is not supported`]);
+  } catch (e) {
+    logger.error('::routeV2(..) - threw exception!', {
+      error: e,
+      issues: e instanceof MalformedLexEventError ? e.issues : undefined,
+    });
+
+    const rethrow = typeof options.rethrow === 'function' ? options.rethrow(e) : options.rethrow;
+    if (rethrow) throw e;
+
+    // ErrorMappers are given the V1 equivalent of the event, and their LexResult is converted back
+    const wellFormed = lexEvent && lexEvent.bot && lexEvent.sessionState && lexEvent.sessionState.intent;
+    const v1Event: LexEvent = wellFormed ? LexV2Adapter.toLexEvent(lexEvent) : undefined;
+    const mapped: LexResult = options.errorMapper ? await options.errorMapper(e, v1Event) : undefined;
+    const lexResult: LexResult = mapped || defaultErrorMapper(e, v1Event, options.messageCatalog);
+    if (wellFormed) return LexV2Adapter.toLexV2Result(lexResult, lexEvent);
+
+    // without an Intent to respond to, the conversation can only be closed
+    const da = lexResult.dialogAction;
+    return LexV2ResultFactory.dialogActionClose({
+      intent: undefined,
+      fulfillmentState: 'Failed',
+      messages: 'message' in da && da.message ? [{ contentType: 'PlainText', content: da.message.content }] : [],
+      sessionAttributes: lexEvent && lexEvent.sessionState ? lexEvent.sessionState.sessionAttributes : undefined,
+    });
+  }
+};
+
+/**
+ * The fields of a LexV2Event that identify it within log entries.
+ *
+ * @param lexEvent
+ */
+export const lexV2EventFields = (lexEvent: LexV2Event): LogFields => {
+  if (!lexEvent) return {};
+
+  return {
+    botName: lexEvent.bot ? lexEvent.bot.name : undefined,
+    intentName: lexEvent.sessionState && lexEvent.sessionState.intent ? lexEvent.sessionState.intent.name : undefined,
+    userId: lexEvent.sessionId,
+    invocationSource: lexEvent.invocationSource,
+  };
+};
+
+/**
+ * Creates LexV2Result messages
+ */
+export class LexV2ResultFactory {
+  /**
+   * Creates a LexV2Result with dialog action type = Close.
+   *
+   * @param param
+   */
+  public static dialogActionClose = (param: {
+    intent: LexV2Intent;
+    fulfillmentState: 'Fulfilled' | 'Failed';
+    messages?: LexV2Message[];
+    sessionAttributes?: { [key: string]: string };
+  }): LexV2Result => {
+    const lr: LexV2Result = {
+      sessionState: {
+        dialogAction: { type: 'Close' },
+      },
+    };
+
+    if (param.intent) lr.sessionState.intent = { ...param.intent, state: param.fulfillmentState };
+
+    LexV2ResultFactory.maybeAddToResult({
+      lexResult: lr,
+      messages: param.messages,
+      sessionAttributes: param.sessionAttributes,
+    });
+
+    return lr;
+  };
+
+  /**
+   * LexV2Result with dialog action type = Delegate
+   *
+   * @param param
+   */
+  public static dialogActionDelegate = (param: {
+    intent: LexV2Intent;
+    sessionAttributes?: { [key: string]: string };
+  }): LexV2Result => {
+    const lr: LexV2Result = {
+      sessionState: {
+        dialogAction: { type: 'Delegate' },
+        intent: param.intent,
+      },
+    };
+
+    LexV2ResultFactory.maybeAddToResult({
+      lexResult: lr,
+      sessionAttributes: param.sessionAttributes,
+    });
+
+    return lr;
+  };
+
+  /**
+   * LexV2Result with ElicitSlot
+   *
+   * @param param
+   */
+  public static dialogActionElicitSlot = (param: {
+    intent: LexV2Intent;
+    slotToElicit: string;
+    messages?: LexV2Message[];
+    sessionAttributes?: { [key: string]: string };
+  }): LexV2Result => {
+    const lr: LexV2Result = {
+      sessionState: {
+        dialogAction: { type: 'ElicitSlot', slotToElicit: param.slotToElicit },
+        intent: param.intent,
+      },
+    };
+
+    LexV2ResultFactory.maybeAddToResult({
+      lexResult: lr,
+      messages: param.messages,
+      sessionAttributes: param.sessionAttributes,
+    });
+
+    return lr;
+  };
+
+  /**
+   * Utility method with arguable benefit to clients.
+   *
+   * @param param
+   */
+  public static maybeAddToResult = (param: {
+    lexResult: LexV2Result;
+    messages?: LexV2Message[];
+    sessionAttributes?: { [key: string]: string };
+  }): void => {
+    if (param.messages && param.messages.length > 0) param.lexResult.messages = param.messages;
+    if (param.sessionAttributes) param.lexResult.sessionState.sessionAttributes = param.sessionAttributes;
+  };
+}
+
+/**
+ * Converts between the V1 and V2 message formats, so that V1 EventHandler implementations can serve V2 Bots.
+ */
+export class LexV2Adapter {
+  /**
+   * Creates a V1 LexEvent equivalent to a V2 event.  The V2 sessionId is used as the V1 userId.
+   *
+   * @param v2Event
+   */
+  public static toLexEvent = (v2Event: LexV2Event): LexEvent => {
+    const intent: LexV2Intent = v2Event.sessionState.intent;
+    const slots: { [name: string]: string | null } = {};
+    const slotDetails: LexEvent['currentIntent']['slotDetails'] = {};
+
+    Object.keys(intent.slots || {}).forEach((slotName) => {
+      const slot: LexV2Slot = intent.slots[slotName];
+      if (!slot || !slot.value) {
+        slots[slotName] = null;
+        return;
+      }
+      slots[slotName] = slot.value.interpretedValue;
+      slotDetails[slotName] = {
+        resolutions: (slot.value.resolvedValues || []).map((value) => ({ value })),
+        originalValue: slot.value.originalValue,
+      };
+    });
+
+    const interpretation: LexV2Interpretation = (v2Event.interpretations || []).find(
+      (i) => i.intent && i.intent.name === intent.name,
+    );
+    const sentiment: LexV2SentimentResponse = interpretation ? interpretation.sentimentResponse : undefined;
+
+    return {
+      currentIntent: {
+        name: intent.name,
+        slots,
+        slotDetails,
+        confirmationStatus: intent.confirmationState,
+      },
+      bot: {
+        name: v2Event.bot.name,
+        alias: v2Event.bot.aliasName || v2Event.bot.aliasId,
+        version: v2Event.bot.version,
+      },
+      userId: v2Event.sessionId,
+      inputTranscript: v2Event.inputTranscript,
+      invocationSource: v2Event.invocationSource,
+      outputDialogMode: v2Event.inputMode === 'Speech' ? 'Voice' : 'Text',
+      messageVersion: '1.0',
+      sessionAttributes: v2Event.sessionState.sessionAttributes || {},
+      requestAttributes: v2Event.requestAttributes || null,
+      recentIntentSummaryView: null,
+      sentimentResponse: sentiment
+        ? {
+            SentimentLabel: sentiment.sentiment,
+            SentimentScore: {
+              Mixed: sentiment.sentimentScore.mixed,
+              Positive: sentiment.sentimentScore.positive,
+              Neutral: sentiment.sentimentScore.neutral,
+              Negative: sentiment.sentimentScore.negative,
+            },
+          }
+        : null,
+      kendraResponse: null,
+    };
+  };
+
+  /**
+   * Creates a V2 result equivalent to a V1 LexResult.  The V2 event being responded to supplies the Intent state
+   * and the slot details that V1 results do not carry.
+   *
+   * @param lexResult
+   * @param v2Event
+   */
+  public static toLexV2Result = (lexResult: LexResult, v2Event: LexV2Event): LexV2Result => {
+    const currentIntent: LexV2Intent = v2Event.sessionState.intent;
+    const da = lexResult.dialogAction;
+    const messages: LexV2Message[] = [];
+    const lr: LexV2Result = {
+      sessionState: {
+        dialogAction: { type: da.type },
+      },
+    };
+
+    if (da.type !== 'Delegate') {
+      if (da.message) messages.push({ contentType: da.message.contentType, content: da.message.content });
+      if (da.responseCard && da.responseCard.genericAttachments.length > 0) {
+        const ga = da.responseCard.genericAttachments[0];
+        messages.push({
+          contentType: 'ImageResponseCard',
+          imageResponseCard: { title: ga.title, subtitle: ga.subTitle, imageUrl: ga.imageUrl, buttons: ga.buttons },
+        });
+      }
+    }
+
+    switch (da.type) {
+      case 'Close':
+        lr.sessionState.intent = {
+          ...currentIntent,
+          state: da.fulfillmentState,
+        };
+        break;
+      case 'ElicitSlot':
+        lr.sessionState.dialogAction.slotToElicit = da.slotToElicit;
+        lr.sessionState.intent = LexV2Adapter.toLexV2Intent(da.intentName, da.slots, currentIntent);
+        break;
+      case 'ConfirmIntent':
+        lr.sessionState.intent = LexV2Adapter.toLexV2Intent(da.intentName, da.slots, currentIntent);
+        break;
+      case 'Delegate':
+        // a V1 Delegate without slots keeps the current Slot values
+        lr.sessionState.intent = da.slots
+          ? LexV2Adapter.toLexV2Intent(currentIntent.name, da.slots, currentIntent)
+          : { ...currentIntent };
+        break;
+    }
+
+    LexV2ResultFactory.maybeAddToResult({
+      lexResult: lr,
+      messages,
+      sessionAttributes: lexResult.sessionAttributes,
+    });
+
+    return lr;
+  };
+
+  /**
+   * Wraps a V1 EventHandler so that it handles V2 events.
+   *
+   * @param eventHandler
+   */
+  public static fromEventHandler = (eventHandler: EventHandler): LexV2EventHandler => {
+    return {
+      handle: async (v2Event: LexV2Event): Promise<LexV2Result> => {
+        const lr: LexResult = await eventHandler.handle(LexV2Adapter.toLexEvent(v2Event));
+        return LexV2Adapter.toLexV2Result(lr, v2Event);
+      },
+    };
+  };
+
+  /**
+   * Wraps both the dialog and fulfill EventHandlers of a V1 LexEventHandler.
+   *
+   * @param lexEventHandler
+   */
+  public static fromLexEventHandler = (lexEventHandler: LexEventHandler): LexV2EventHandlerSet => {
+    return {
+      dialog: LexV2Adapter.fromEventHandler(lexEventHandler.dialog),
+      fulfill: LexV2Adapter.fromEventHandler(lexEventHandler.fulfill),
+    };
+  };
+
+  /**
+   * Creates a V2 Intent from V1 slot values.  Slots whose value is unchanged keep their original V2 detail.
+   *
+   * @param intentName
+   * @param slots
+   * @param currentIntent
+   */
+  protected static toLexV2Intent = (
+    intentName: string,
+    slots: { [name: string]: string | null },
+    currentIntent: LexV2Intent,
+  ): LexV2Intent => {
+    const sameIntent = currentIntent && currentIntent.name === intentName;
+    const v2Slots: LexV2Slots = {};
+
+    Object.keys(slots || {}).forEach((slotName) => {
+      const value = slots[slotName];
+      const original: LexV2Slot = sameIntent && currentIntent.slots ? currentIntent.slots[slotName] : null;
+
+      if (value === null || value === undefined) {
+        v2Slots[slotName] = null;
+      } else if (original && original.value && original.value.interpretedValue === value) {
+        v2Slots[slotName] = original;
+      } else {
+        v2Slots[slotName] = { value: { originalValue: value, interpretedValue: value, resolvedValues: [value] } };
+      }
+    });
+
+    return {
+      name: intentName,
+      slots: v2Slots,
+      state: sameIntent ? currentIntent.state : 'InProgress',
+      confirmationState: sameIntent ? currentIntent.confirmationState : 'None',
+    };
+  };
+}
@@ -0,0 +1,273 @@
+import { LexEvent, LexResult } from './lex-hook';
+
+/**
+ * Logging within this library is done via implementations of the Logger interface below.  Clients may inject their
+ * own implementation, or configure the JsonLogger, which writes one JSON object per line so that CloudWatch Logs
+ * Insights can query the fields.
+ */
+
+export enum LogLevel {
+  DEBUG = 1,
+  INFO,
+  WARN,
+  ERROR,
+  SILENT,
+}
+
+export interface LogFields {
+  [key: string]: unknown;
+}
+
+/**
+ * Implementations of this interface are injectable into route and the DefaultDialogEventHandler.
+ */
+export interface Logger {
+  debug: (message: string, fields?: LogFields) => void;
+  info: (message: string, fields?: LogFields) => void;
+  warn: (message: string, fields?: LogFields) => void;
+  error: (message: string, fields?: LogFields) => void;
+  /**
+   * Returns a Logger that includes the given fields in every entry, e.g. the bot name and userId of a LexEvent.
+   */
+  child: (fields: LogFields) => Logger;
+}
+
+/**
+ * Rules that determine which parts of LexEvents and LexResults are masked before they are logged.
+ */
+export interface RedactionRules {
+  /**
+   * Names of the Slots whose values are masked, or '*' to mask every Slot value.
+   */
+  slots?: string[] | '*';
+  /**
+   * Mask the inputTranscript?
+   */
+  inputTranscript?: boolean;
+  /**
+   * Names of the session attributes whose values are masked, or '*' to mask every session attribute value.
+   */
+  sessionAttributes?: string[] | '*';
+  /**
+   * The replacement for masked values.  Defaults to '****'.
+   */
+  mask?: string;
+}
+
+/**
+ * Applies RedactionRules to copies of LexEvents and LexResults.  By default, every Slot value and the
+ * inputTranscript are masked.
+ */
+export class Redactor {
+  protected rules: RedactionRules;
+
+  constructor(rules: RedactionRules = { slots: '*', inputTranscript: true }) {
+    this.rules = rules;
+  }
+
+  /**
+   * Returns a copy of the LexEvent with values masked according to the rules.
+   *
+   * @param lexEvent
+   */
+  public redactEvent(lexEvent: LexEvent): LexEvent {
+    if (!lexEvent) return lexEvent;
+
+    const r: LexEvent = JSON.parse(JSON.stringify(lexEvent));
+
+    if (this.rules.inputTranscript && r.inputTranscript) r.inputTranscript = this.getMask();
+    if (r.currentIntent) {
+      this.redactValues(r.currentIntent.slots, this.rules.slots);
+      if (r.currentIntent.slotDetails) {
+        Object.keys(r.currentIntent.slotDetails).forEach((slotName) => {
+          if (!this.matches(slotName, this.rules.slots)) return;
+          const details = r.currentIntent.slotDetails[slotName];
+          if (!details) return;
+          if (details.originalValue) details.originalValue = this.getMask();
+          (details.resolutions || []).forEach((resolution) => (resolution.value = this.getMask()));
+        });
+      }
+    }
+    (r.recentIntentSummaryView || []).forEach((is) => this.redactValues(is.slots, this.rules.slots));
+    this.redactValues(r.sessionAttributes, this.rules.sessionAttributes);
+
+    return r;
+  }
+
+  /**
+   * Returns a copy of the LexResult with values masked according to the rules.  Masked Slot values are also masked
+   * where they occur in the message, e.g. a prompt that interpolates {value}.  The values of the Slots of the
+   * LexEvent the LexResult responds to, if given, are masked in the message too, as a Close result has none.
+   *
+   * @param lexResult
+   * @param lexEvent - optional
+   */
+  public redactResult(lexResult: LexResult, lexEvent?: LexEvent): LexResult {
+    if (!lexResult) return lexResult;
+
+    const r: LexResult = JSON.parse(JSON.stringify(lexResult));
+    const masked = this.getMaskedSlotValues(lexResult, lexEvent);
+
+    if (r.dialogAction && r.dialogAction.type !== 'Close' && r.dialogAction.type !== 'ElicitIntent') {
+      this.redactValues(r.dialogAction.slots, this.rules.slots);
+    }
+    if (r.dialogAction && r.dialogAction.type !== 'Delegate' && r.dialogAction.message && masked.length > 0) {
+      const message = r.dialogAction.message;
+      masked.forEach((value) => (message.content = message.content.split(value).join(this.getMask())));
+    }
+    (r.recentIntentSummaryView || []).forEach((is) => this.redactValues(is.slots, this.rules.slots));
+    this.redactValues(r.sessionAttributes, this.rules.sessionAttributes);
+
+    return r;
+  }
+
+  /**
+   * Returns the values of the Slots, of a LexResult and optionally of its LexEvent, that the rules mask, longest
+   * first.
+   *
+   * @param lexResult
+   * @param lexEvent
+   */
+  protected getMaskedSlotValues(lexResult: LexResult, lexEvent?: LexEvent): string[] {
+    const values: Set<string> = new Set();
+    const add = (slots: { [name: string]: string | null }) =>
+      Object.keys(slots || {}).forEach((name) => {
+        if (slots[name] && this.matches(name, this.rules.slots)) values.add(slots[name]);
+      });
+
+    const da = lexResult.dialogAction;
+    if (da && da.type !== 'Close' && da.type !== 'ElicitIntent') add(da.slots);
+    (lexResult.recentIntentSummaryView || []).forEach((is) => add(is.slots));
+    if (lexEvent && lexEvent.currentIntent) {
+      add(lexEvent.currentIntent.slots);
+      const details = lexEvent.currentIntent.slotDetails || {};
+      const originalValues: { [name: string]: string } = {};
+      Object.keys(details).forEach((name) => (originalValues[name] = details[name] && details[name].originalValue));
+      add(originalValues);
+    }
+
+    return Array.from(values).sort((a, b) => b.length - a.length);
+  }
+
+  protected redactValues(values: { [key: string]: string | null }, names: string[] | '*'): void {
+    if (!values || !names) return;
+
+    Object.keys(values).forEach((key) => {
+      if (values[key] !== null && values[key] !== undefined && this.matches(key, names)) values[key] = this.getMask();
+    });
+  }
+
+  protected matches(name: string, names: string[] | '*'): boolean {
+    if (!names) return false;
+    return names === '*' || names.indexOf(name) >= 0;
+  }
+
+  protected getMask(): string {
+    return this.rules.mask ?? '****';
+  }
+}
+
+/**
+ * Configuration of a JsonLogger.
+ */
+export interface JsonLoggerConfig {
+  /**
+   * Entries below this level are discarded.  Defaults to INFO.
+   */
+  level?: LogLevel;
+  /**
+   * Fields included in every entry.
+   */
+  fields?: LogFields;
+  /**
+   * Redacts fields named lexEvent and lexResult.  Defaults to a Redactor with default rules.
+   */
+  redactor?: Redactor;
+  /**
+   * Where each JSON line is written.  Defaults to console.log.
+   */
+  sink?: (line: string) => void;
+}
+
+/**
+ * A Logger that writes each entry as a single line of JSON.
+ */
+export class JsonLogger implements Logger {
+  protected config: JsonLoggerConfig;
+
+  constructor(config: JsonLoggerConfig = {}) {
+    this.config = {
+      level: LogLevel.INFO,
+      fields: {},
+      redactor: new Redactor(),
+      sink: (line: string) => console.log(line),
+      ...config,
+    };
+  }
+
+  public debug = (message: string, fields?: LogFields): void => this.log(LogLevel.DEBUG, message, fields);
+
+  public info = (message: string, fields?: LogFields): void => this.log(LogLevel.INFO, message, fields);
+
+  public warn = (message: string, fields?: LogFields): void => this.log(LogLevel.WARN, message, fields);
+
+  public error = (message: string, fields?: LogFields): void => this.log(LogLevel.ERROR, message, fields);
+
+  public child = (fields: LogFields): Logger => {
+    return new JsonLogger({ ...this.config, fields: { ...this.config.fields, ...fields } });
+  };
+
+  protected log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (level < this.config.level) return;
+
+    const entry: LogFields = {
+      timestamp: new Date().toISOString(),
+      level: LogLevel[level],
+      message,
+      ...this.config.fields,
+      ...fields,
+    };
+
+    if (entry.lexResult) {
+      entry.lexResult = this.config.redactor.redactResult(entry.lexResult as LexResult, entry.lexEvent as LexEvent);
+    }
+    if (entry.lexEvent) entry.lexEvent = this.config.redactor.redactEvent(entry.lexEvent as LexEvent);
+    if (entry.error instanceof Error) {
+      entry.error = { name: entry.error.name, message: entry.error.message, stack: entry.error.stack };
+    }
+
+    this.config.sink(JSON.stringify(entry));
+  }
+}
+
+/**
+ * The fields of a LexEvent that identify it within log entries.
+ *
+ * @param lexEvent
+ */
+export const lexEventFields = (lexEvent: LexEvent): LogFields => {
+  if (!lexEvent) return {};
+
+  return {
+    botName: lexEvent.bot ? lexEvent.bot.name : undefined,
+    intentName: lexEvent.currentIntent ? lexEvent.currentIntent.name : undefined,
+    userId: lexEvent.userId,
+    invocationSource: lexEvent.invocationSource,
+  };
+};
+
+let defaultLogger: Logger = new JsonLogger();
+
+/**
+ * Returns the Logger used when none is injected.
+ */
+export const getDefaultLogger = (): Logger => defaultLogger;
+
+/**
+ * Replaces the Logger used when none is injected.
+ *
+ * @param logger
+ */
+export const setDefaultLogger = (logger: Logger): void => {
+  defaultLogger = logger;
+};
@@ -0,0 +1,154 @@
+import { LexEvent } from './lex-hook';
+
+/**
+ * A MessageCatalog resolves message keys, e.g. SlotEvaluator prompt messages, to text in the locale of the
+ * conversation.  Messages are templates: {slots.name} is replaced by the value of a Slot of the current Intent,
+ * {session.name} by the value of a session attribute, and {name} by a variable supplied by the caller.  A message
+ * may have several phrasings, one of which is chosen at random each time it is resolved.
+ *
+ *     new MessageCatalog({
+ *       defaultLocale: 'en-US',
+ *       messages: {
+ *         'en-US': { 'flower.prompt': ['What type of flowers?', 'Which flowers would you like?'] },
+ *         'es-US': { 'flower.prompt': '¿Qué tipo de flores?' },
+ *       },
+ *     });
+ */
+
+/**
+ * Keys of the messages used by the library itself.
+ */
+export const MessageKeys = {
+  /**
+   * The message included in the LexResult route returns when a handler throws.
+   */
+  ROUTE_ERROR: 'lexhook.route.error',
+  /**
+   * The message used when a RetryableUserInputError re-elicits a Slot without a message of its own.
+   */
+  RETRY_INPUT: 'lexhook.route.retryInput',
+  /**
+   * The message included in the LexResult route returns when a DownstreamUnavailableError is thrown.
+   */
+  DOWNSTREAM_UNAVAILABLE: 'lexhook.route.downstreamUnavailable',
+};
+
+export interface MessageCatalogEntries {
+  [key: string]: string | string[];
+}
+
+export interface MessageCatalogConfig {
+  /**
+   * Messages keyed by locale, e.g. 'en-US', then by message key.  A language without region, e.g. 'es', is used
+   * for any locale of that language that is not itself present.
+   */
+  messages: { [locale: string]: MessageCatalogEntries };
+  /**
+   * The locale used when none can be determined from the LexEvent, and for keys missing from other locales.
+   */
+  defaultLocale: string;
+  /**
+   * The session attribute, and request attribute, that name the locale.  Defaults to 'locale'.
+   */
+  localeAttribute?: string;
+  /**
+   * Locales keyed by bot alias, for Bots that have an alias per locale.
+   */
+  aliasLocales?: { [botAlias: string]: string };
+  /**
+   * Returns a number in [0, 1) used to choose among phrasings.  Defaults to Math.random.
+   */
+  random?: () => number;
+}
+
+export class MessageCatalog {
+  protected config: MessageCatalogConfig;
+
+  constructor(config: MessageCatalogConfig) {
+    this.config = { localeAttribute: 'locale', random: Math.random, ...config };
+  }
+
+  /**
+   * Determines the locale of the conversation from, in order: a session attribute, a request attribute, the bot
+   * alias, and finally the default locale.
+   *
+   * @param lexEvent
+   */
+  public resolveLocale(lexEvent: LexEvent): string {
+    const attr = this.config.localeAttribute;
+
+    if (lexEvent) {
+      if (lexEvent.sessionAttributes && lexEvent.sessionAttributes[attr]) return lexEvent.sessionAttributes[attr];
+      if (lexEvent.requestAttributes && lexEvent.requestAttributes[attr]) return lexEvent.requestAttributes[attr];
+      if (lexEvent.bot && this.config.aliasLocales && this.config.aliasLocales[lexEvent.bot.alias])
+        return this.config.aliasLocales[lexEvent.bot.alias];
+    }
+
+    return this.config.defaultLocale;
+  }
+
+  /**
+   * Is there a message for the key in any locale?
+   *
+   * @param key
+   */
+  public has(key: string): boolean {
+    return Object.keys(this.config.messages).some((locale) => this.config.messages[locale][key] !== undefined);
+  }
+
+  /**
+   * Returns the message for the key in the locale of the conversation, with the template interpolated.  If the
+   * key is not in the catalog, the key itself is treated as the template, so literal messages can be used
+   * interchangeably with keys.
+   *
+   * @param key
+   * @param lexEvent
+   * @param vars
+   */
+  public format(key: string, lexEvent: LexEvent, vars: { [name: string]: string } = {}): string {
+    const entry = this.lookup(key, this.resolveLocale(lexEvent));
+    const phrasings: string[] = entry === undefined ? [key] : Array.isArray(entry) ? entry : [entry];
+    const template = phrasings[Math.floor(this.config.random() * phrasings.length)] ?? '';
+
+    return MessageCatalog.interpolate(template, lexEvent, vars);
+  }
+
+  /**
+   * Replaces {slots.name}, {session.name} and {name} placeholders.  Placeholders without a value are replaced
+   * by an empty string.
+   *
+   * @param template
+   * @param lexEvent
+   * @param vars
+   */
+  public static interpolate(template: string, lexEvent: LexEvent, vars: { [name: string]: string } = {}): string {
+    return template.replace(/\{([\w.:-]+)\}/g, (match: string, name: string) => {
+      let value: string;
+      if (name.startsWith('slots.')) {
+        value = lexEvent && lexEvent.currentIntent ? lexEvent.currentIntent.slots[name.substring(6)] : undefined;
+      } else if (name.startsWith('session.')) {
+        value = lexEvent && lexEvent.sessionAttributes ? lexEvent.sessionAttributes[name.substring(8)] : undefined;
+      } else {
+        value = vars[name];
+      }
+      return value ?? '';
+    });
+  }
+
+  /**
+   * Finds the entry for a key, falling back from locale, to language, to the default locale.
+   *
+   * @param key
+   * @param locale
+   */
+  protected lookup(key: string, locale: string): string | string[] | undefined {
+    const language = locale.split(/[-_]/)[0];
+
+    for (const l of [locale, language, this.config.defaultLocale]) {
+      const entries = this.config.messages[l];
+      if (entries && entries[key] !== undefined) return entries[key];
+    }
+
+    return undefined;
+  }
+}
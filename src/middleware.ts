@@ -0,0 +1,161 @@
+import { Context } from 'aws-lambda';
+import { LexEvent, LexResult, LexResultFactory } from './lex-hook';
+import { Logger } from './logger';
+
+/**
+ * Middleware wraps the EventHandler invoked by route, so that concerns such as authentication, session hydration,
+ * metrics, input filtering and response post-processing are implemented once rather than in each dialog and
+ * fulfill handler.
+ *
+ * Middleware is applied like layers of an onion: before functions are invoked in order, then the EventHandler,
+ * then after functions in reverse order.  A before function may end handling early by returning a LexResult, in
+ * which case only the after functions of the middleware already entered are invoked.
+ */
+
+/**
+ * Given to every middleware function.
+ */
+export interface MiddlewareContext {
+  ctx: Context;
+  logger: Logger;
+  /**
+   * Shared by every middleware function during the handling of one LexEvent, e.g. to pass a start time from a
+   * before function to an after function.
+   */
+  state: { [key: string]: unknown };
+}
+
+export interface Middleware {
+  /**
+   * Identifies the middleware within log entries.
+   */
+  name?: string;
+  /**
+   * Invoked before the EventHandler.  May modify the LexEvent, or return a LexResult to end handling early.
+   */
+  before?: (lexEvent: LexEvent, context: MiddlewareContext) => void | LexResult | Promise<void | LexResult>;
+  /**
+   * Invoked after the EventHandler.  May modify the LexResult, or return a replacement.
+   */
+  after?: (
+    lexEvent: LexEvent,
+    lexResult: LexResult,
+    context: MiddlewareContext,
+  ) => void | LexResult | Promise<void | LexResult>;
+  /**
+   * Invoked when a before function, the EventHandler, or an after function throws.  onError functions are invoked
+   * in reverse order until one returns a LexResult, which is then the result of route.  If none does, route
+   * handles the error itself.
+   */
+  onError?: (
+    lexEvent: LexEvent,
+    error: unknown,
+    context: MiddlewareContext,
+  ) => void | LexResult | Promise<void | LexResult>;
+}
+
+/**
+ * Invokes an EventHandler's handle function within a chain of middleware.
+ *
+ * @param middleware
+ * @param lexEvent
+ * @param context
+ * @param handle
+ */
+export const runMiddleware = async (
+  middleware: Middleware[],
+  lexEvent: LexEvent,
+  context: MiddlewareContext,
+  handle: (lexEvent: LexEvent) => Promise<LexResult>,
+): Promise<LexResult> => {
+  let entered = 0;
+
+  try {
+    let lr: LexResult;
+
+    for (const m of middleware) {
+      entered++;
+      if (!m.before) continue;
+      const r = await m.before(lexEvent, context);
+      if (r) {
+        lr = r;
+        break;
+      }
+    }
+
+    if (!lr) lr = await handle(lexEvent);
+
+    for (let i = entered - 1; i >= 0; i--) {
+      if (!middleware[i].after) continue;
+      const r = await middleware[i].after(lexEvent, lr, context);
+      if (r) lr = r;
+    }
+
+    return lr;
+  } catch (e) {
+    for (let i = entered - 1; i >= 0; i--) {
+      if (!middleware[i].onError) continue;
+      const r = await middleware[i].onError(lexEvent, e, context);
+      if (r) {
+        context.logger.info(`::runMiddleware(..) - error handled by ${middleware[i].name || 'middleware ' + i}`);
+        return r;
+      }
+    }
+    throw e;
+  }
+};
+
+/**
+ * Re-usable Middleware.
+ */
+export class Middlewares {
+  /**
+   * Logs the time taken to handle each LexEvent, and the resulting dialog action type.
+   */
+  public static timing = (): Middleware => ({
+    name: 'timing',
+    before: (lexEvent, context) => {
+      context.state.timingStart = Date.now();
+    },
+    after: (lexEvent, lexResult, context) => {
+      context.logger.info('LexEvent handled', {
+        durationMs: Date.now() - (context.state.timingStart as number),
+        dialogActionType: lexResult.dialogAction.type,
+      });
+    },
+  });
+
+  /**
+   * Replaces the inputTranscript before it is handled, e.g. to mask profanity.
+   *
+   * @param filter
+   */
+  public static filterInputTranscript = (filter: (inputTranscript: string) => string): Middleware => ({
+    name: 'filterInputTranscript',
+    before: (lexEvent) => {
+      if (lexEvent.inputTranscript) lexEvent.inputTranscript = filter(lexEvent.inputTranscript);
+    },
+  });
+
+  /**
+   * Closes the conversation, without invoking the EventHandler, unless the request attributes are accepted.
+   *
+   * @param isAuthorized - returns true if the request attributes are acceptable, e.g. contain a valid token
+   * @param message - included in the Close dialog action returned otherwise
+   */
+  public static requireRequestAttributes = (
+    isAuthorized: (requestAttributes: { [key: string]: string }) => boolean | Promise<boolean>,
+    message = 'Sorry, you are not authorized',
+  ): Middleware => ({
+    name: 'requireRequestAttributes',
+    before: async (lexEvent) => {
+      if (await isAuthorized(lexEvent.requestAttributes || {})) return;
+
+      return LexResultFactory.dialogActionClose({
+        fulfillmentState: 'Failed',
+        message: { contentType: 'PlainText', content: message },
+        sessionAttributes: lexEvent.sessionAttributes,
+      });
+    },
+  });
+}
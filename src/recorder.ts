@@ -0,0 +1,391 @@
+import { promises as fs } from 'fs';
+import { LexEvent, LexResult, LexEventHandler, RouteOptions, route } from './lex-hook';
+import { Logger, Redactor } from './logger';
+import { Middleware } from './middleware';
+
+/**
+ * Conversations handled in production can be recorded, and replayed later against the current code hooks as a
+ * regression test, e.g. before refactoring SlotEvaluators.  A ConversationRecorder is a Middleware that captures
+ * each LexEvent, as received, and the LexResult returned for it, to a RecordingSink such as a JSONL file:
+ *
+ *     route(lexEvent, ctx, handler, { middleware: [new ConversationRecorder({ sink }).asMiddleware(), ...] });
+ *
+ * Recordings groups the recorded turns into conversations, by userId and session, and replays them:
+ *
+ *     const report = await Recordings.replay(await Recordings.read('orders.jsonl'), handler);
+ *     expect(Recordings.formatReport(report)).toEqual('');
+ */
+
+/**
+ * The session attribute in which the ConversationRecorder keeps the id of the session, by default.
+ */
+export const DEFAULT_SESSION_ID_ATTRIBUTE = 'lexhook.sessionId';
+
+/**
+ * A recorded LexEvent, and the LexResult returned for it, redacted.
+ */
+export interface RecordedTurn {
+  userId: string;
+  sessionId: string;
+  /**
+   * When the LexEvent was received, as an ISO 8601 timestamp.
+   */
+  timestamp: string;
+  lexEvent: LexEvent;
+  /**
+   * The LexResult, or undefined if handling threw, in which case the error message is recorded instead.
+   */
+  lexResult?: LexResult;
+  error?: string;
+}
+
+export interface RecordedConversation {
+  userId: string;
+  sessionId: string;
+  /**
+   * In the order they were recorded.
+   */
+  turns: RecordedTurn[];
+}
+
+/**
+ * Where a ConversationRecorder writes turns.  See RecordingSinks.
+ */
+export interface RecordingSink {
+  write: (turn: RecordedTurn) => void | Promise<void>;
+}
+
+/**
+ * Re-usable RecordingSinks.  Each writes a turn as a line of JSON.
+ */
+export class RecordingSinks {
+  /**
+   * Appends turns to a file, e.g. under /tmp in Lambda.
+   *
+   * @param path
+   */
+  public static jsonlFile = (path: string): RecordingSink => ({
+    write: (turn) => fs.appendFile(path, `${JSON.stringify(turn)}\n`, 'utf8'),
+  });
+
+  /**
+   * Writes turns to a stream, e.g. process.stdout, so that they are captured by CloudWatch Logs.
+   *
+   * @param stream
+   */
+  public static stream = (stream: NodeJS.WritableStream): RecordingSink => ({
+    write: (turn) => {
+      stream.write(`${JSON.stringify(turn)}\n`);
+    },
+  });
+}
+
+export interface ConversationRecorderConfig {
+  sink: RecordingSink;
+  /**
+   * Applied to each LexEvent and LexResult before it is written.  Defaults to a Redactor with default rules, i.e.
+   * Slot values and the inputTranscript are masked.  Masked values are replayed as the mask, so for recordings
+   * that are to be replayed, configure a Redactor that masks only values the dialog does not depend upon.
+   */
+  redactor?: Redactor;
+  /**
+   * The session attribute in which the id of the session is kept.  Defaults to DEFAULT_SESSION_ID_ATTRIBUTE.
+   */
+  sessionIdAttribute?: string;
+  /**
+   * An optional function that decides whether a LexEvent is recorded, e.g. to sample conversations.  By default,
+   * every LexEvent is recorded.
+   */
+  shouldRecord?: (lexEvent: LexEvent) => boolean;
+  /**
+   * Defaults to the current time.
+   */
+  now?: () => Date;
+}
+
+/**
+ * Records each LexEvent and LexResult handled by route, via asMiddleware().  Lex V1 does not identify sessions,
+ * so the recorder keeps a session id in a session attribute, which it adds to the LexResult of the first turn.
+ * Errors writing to the sink are logged, but do not affect the conversation.
+ *
+ * The middleware should be first in the chain, so that it records the LexEvent before other middleware changes
+ * it, and the LexResult after.
+ */
+export class ConversationRecorder {
+  protected config: ConversationRecorderConfig;
+
+  constructor(config: ConversationRecorderConfig) {
+    this.config = {
+      redactor: new Redactor(),
+      sessionIdAttribute: DEFAULT_SESSION_ID_ATTRIBUTE,
+      shouldRecord: () => true,
+      now: () => new Date(),
+      ...config,
+    };
+  }
+
+  public asMiddleware(): Middleware {
+    const attribute = this.config.sessionIdAttribute;
+
+    return {
+      name: 'recorder',
+      before: (lexEvent, context) => {
+        if (!this.config.shouldRecord(lexEvent)) return;
+        context.state.recording = {
+          userId: lexEvent.userId,
+          sessionId: (lexEvent.sessionAttributes || {})[attribute] || this.createSessionId(),
+          timestamp: this.config.now().toISOString(),
+          lexEvent: this.config.redactor.redactEvent(lexEvent),
+        } as RecordedTurn;
+        // as received, before handlers change its Slot values, to mask them in the message of the LexResult
+        context.state.recordedEvent = JSON.parse(JSON.stringify(lexEvent));
+      },
+      after: async (lexEvent, lexResult, context) => {
+        const turn = context.state.recording as RecordedTurn;
+        if (!turn) return;
+
+        lexResult.sessionAttributes = { ...lexResult.sessionAttributes, [attribute]: turn.sessionId };
+        const redacted = this.config.redactor.redactResult(lexResult, context.state.recordedEvent as LexEvent);
+        await this.write({ ...turn, lexResult: redacted }, context.logger);
+      },
+      onError: async (lexEvent, error, context) => {
+        const turn = context.state.recording as RecordedTurn;
+        if (!turn) return;
+
+        await this.write({ ...turn, error: error instanceof Error ? error.message : String(error) }, context.logger);
+      },
+    };
+  }
+
+  /**
+   * Writes a turn to the sink, logging rather than throwing any error.
+   *
+   * @param turn
+   * @param logger
+   */
+  protected async write(turn: RecordedTurn, logger: Logger): Promise<void> {
+    try {
+      await this.config.sink.write(turn);
+    } catch (e) {
+      logger.warn('::ConversationRecorder(..) - could not record turn', { error: e });
+    }
+  }
+
+  protected createSessionId(): string {
+    return `${this.config.now().getTime().toString(36)}-${Math.random().toString(36).substring(2, 10)}`;
+  }
+}
+
+/**
+ * A difference between the recorded and replayed LexResult of a turn.  For session attributes, the key is the
+ * name of the attribute that differs.
+ */
+export interface ReplayDiff {
+  field: 'dialogActionType' | 'fulfillmentState' | 'slotToElicit' | 'message' | 'sessionAttributes';
+  key?: string;
+  recorded: string | undefined;
+  replayed: string | undefined;
+}
+
+export interface TurnReplay {
+  /**
+   * The index of the turn within its conversation.
+   */
+  index: number;
+  inputTranscript: string;
+  diffs: ReplayDiff[];
+  /**
+   * true if the turn was not compared, because handling it threw when it was recorded
+   */
+  skipped: boolean;
+}
+
+export interface ConversationReplay {
+  userId: string;
+  sessionId: string;
+  turns: TurnReplay[];
+  passed: boolean;
+}
+
+export interface ReplayReport {
+  conversations: ConversationReplay[];
+  /**
+   * true if no turn of any conversation differs
+   */
+  passed: boolean;
+}
+
+export interface ReplayOptions {
+  /**
+   * Passed to route.  Should not include the middleware of a ConversationRecorder.
+   */
+  routeOptions?: RouteOptions;
+  /**
+   * Session attributes that are not compared.  Defaults to DEFAULT_SESSION_ID_ATTRIBUTE.
+   */
+  ignoreSessionAttributes?: string[];
+  /**
+   * Applied to each replayed LexResult before it is compared, so that values masked when recorded are masked
+   * when replayed too.  Should be the Redactor of the ConversationRecorder.  Defaults to a Redactor with default
+   * rules, as for ConversationRecorder.
+   */
+  redactor?: Redactor;
+}
+
+/**
+ * Functions that read and replay recorded conversations.
+ */
+export class Recordings {
+  /**
+   * Groups recorded turns, as JSONL, into conversations by userId and session id, in the order their first turns
+   * were recorded.  Blank lines are ignored.
+   *
+   * @param jsonl
+   */
+  public static parse = (jsonl: string): RecordedConversation[] => {
+    const conversations: RecordedConversation[] = [];
+    const byKey: { [key: string]: RecordedConversation } = {};
+
+    jsonl
+      .split('\n')
+      .filter((line) => line.trim())
+      .forEach((line) => {
+        const turn: RecordedTurn = JSON.parse(line);
+        const key = JSON.stringify([turn.userId, turn.sessionId]);
+        if (!byKey[key]) {
+          byKey[key] = { userId: turn.userId, sessionId: turn.sessionId, turns: [] };
+          conversations.push(byKey[key]);
+        }
+        byKey[key].turns.push(turn);
+      });
+
+    return conversations;
+  };
+
+  /**
+   * Reads a JSONL file written by RecordingSinks.jsonlFile, see parse.
+   *
+   * @param path
+   */
+  public static read = async (path: string): Promise<RecordedConversation[]> => {
+    return Recordings.parse(await fs.readFile(path, 'utf8'));
+  };
+
+  /**
+   * Replays each recorded LexEvent through route to the handler, and compares the LexResult, redacted, with the
+   * recorded one: dialog action type, fulfillment state, Slot to elicit, message content and session attributes.
+   *
+   * @param conversations
+   * @param handler
+   * @param options
+   */
+  public static replay = async (
+    conversations: RecordedConversation[],
+    handler: LexEventHandler,
+    options: ReplayOptions = {},
+  ): Promise<ReplayReport> => {
+    const ignored = options.ignoreSessionAttributes || [DEFAULT_SESSION_ID_ATTRIBUTE];
+    const redactor = options.redactor || new Redactor();
+    const replays: ConversationReplay[] = [];
+
+    for (const conversation of conversations) {
+      const turns: TurnReplay[] = [];
+
+      for (const [index, turn] of conversation.turns.entries()) {
+        const inputTranscript = turn.lexEvent.inputTranscript;
+        if (!turn.lexResult) {
+          turns.push({ index, inputTranscript, diffs: [], skipped: true });
+          continue;
+        }
+
+        const lexEvent: LexEvent = JSON.parse(JSON.stringify(turn.lexEvent));
+        const replayed = redactor.redactResult(
+          await route(lexEvent, null, handler, options.routeOptions),
+          turn.lexEvent,
+        );
+        turns.push({
+          index,
+          inputTranscript,
+          diffs: Recordings.compare(turn.lexResult, replayed, ignored),
+          skipped: false,
+        });
+      }
+
+      replays.push({ ...conversation, turns, passed: turns.every((t) => t.diffs.length === 0) });
+    }
+
+    return { conversations: replays, passed: replays.every((c) => c.passed) };
+  };
+
+  /**
+   * Describes the differences found by a replay, one line per difference, or returns '' if there are none.
+   *
+   * @param report
+   */
+  public static formatReport = (report: ReplayReport): string => {
+    const lines: string[] = [];
+
+    report.conversations.forEach((c) =>
+      c.turns.forEach((t) =>
+        t.diffs.forEach((d) => {
+          const field = d.key ? `${d.field}.${d.key}` : d.field;
+          const values = `recorded ${JSON.stringify(d.recorded)}, replayed ${JSON.stringify(d.replayed)}`;
+          lines.push(`${c.userId} ${c.sessionId} turn ${t.index} "${t.inputTranscript}": ${field} ${values}`);
+        }),
+      ),
+    );
+
+    return lines.join('\n');
+  };
+
+  /**
+   * Compares a recorded LexResult with a replayed one.
+   *
+   * @param recorded
+   * @param replayed
+   * @param ignoredSessionAttributes
+   */
+  protected static compare = (
+    recorded: LexResult,
+    replayed: LexResult,
+    ignoredSessionAttributes: string[],
+  ): ReplayDiff[] => {
+    const diffs: ReplayDiff[] = [];
+    const a = Recordings.summarize(recorded);
+    const b = Recordings.summarize(replayed);
+
+    (['dialogActionType', 'fulfillmentState', 'slotToElicit', 'message'] as ReplayDiff['field'][]).forEach((field) => {
+      if (a[field] !== b[field]) diffs.push({ field, recorded: a[field], replayed: b[field] });
+    });
+
+    const recordedAttributes = recorded.sessionAttributes || {};
+    const replayedAttributes = replayed.sessionAttributes || {};
+    const keys = new Set([...Object.keys(recordedAttributes), ...Object.keys(replayedAttributes)]);
+    keys.forEach((key) => {
+      if (ignoredSessionAttributes.includes(key) || recordedAttributes[key] === replayedAttributes[key]) return;
+      diffs.push({
+        field: 'sessionAttributes',
+        key,
+        recorded: recordedAttributes[key],
+        replayed: replayedAttributes[key],
+      });
+    });
+
+    return diffs;
+  };
+
+  /**
+   * The compared fields of a LexResult, other than session attributes.
+   *
+   * @param lexResult
+   */
+  protected static summarize = (lexResult: LexResult): { [field: string]: string | undefined } => {
+    const da = lexResult.dialogAction;
+    return {
+      dialogActionType: da.type,
+      fulfillmentState: da.type === 'Close' ? da.fulfillmentState : undefined,
+      slotToElicit: da.type === 'ElicitSlot' ? da.slotToElicit : undefined,
+      message: da.type !== 'Delegate' && da.message ? da.message.content : undefined,
+    };
+  };
+}
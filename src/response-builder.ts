@@ -0,0 +1,232 @@
+import { LexGenericAttachment } from 'aws-lambda';
+import { ResponseMessage, ResponseCard } from './lex-hook';
+import { LexHookError } from './errors';
+
+/**
+ * Fluent builders for the messages and response cards included in LexResults.  Anything built here can be passed
+ * as the message or responseCard of a LexResultFactory dialog action.
+ *
+ * see: https://docs.aws.amazon.com/lex/latest/dg/howitworks-manage-prompts.html
+ */
+
+/**
+ * Lex limits on response cards.
+ */
+export const ResponseCardLimits = {
+  attachments: 10,
+  buttonsPerAttachment: 5,
+  titleLength: 80,
+  subTitleLength: 80,
+  buttonTextLength: 15,
+  buttonValueLength: 1000,
+};
+
+/**
+ * Builds a response card containing generic attachments.  Each call to attachment() starts a new attachment;
+ * the other methods apply to the attachment most recently started.
+ *
+ *     new ResponseCardBuilder().attachment().title('Flowers').buttons(['roses', 'tulips']).build()
+ */
+export class ResponseCardBuilder {
+  private attachments: LexGenericAttachment[] = [];
+
+  /**
+   * Starts a new attachment.
+   */
+  public attachment(): ResponseCardBuilder {
+    this.attachments.push({
+      title: undefined,
+      subTitle: undefined,
+      imageUrl: undefined,
+      attachmentLinkUrl: undefined,
+      buttons: [],
+    });
+    return this;
+  }
+
+  public title(title: string): ResponseCardBuilder {
+    this.current().title = title;
+    return this;
+  }
+
+  public subTitle(subTitle: string): ResponseCardBuilder {
+    this.current().subTitle = subTitle;
+    return this;
+  }
+
+  public imageUrl(imageUrl: string): ResponseCardBuilder {
+    this.current().imageUrl = imageUrl;
+    return this;
+  }
+
+  public attachmentLinkUrl(attachmentLinkUrl: string): ResponseCardBuilder {
+    this.current().attachmentLinkUrl = attachmentLinkUrl;
+    return this;
+  }
+
+  /**
+   * Adds a button.  The value sent to Lex when the button is chosen defaults to the button text.
+   *
+   * @param text
+   * @param value
+   */
+  public button(text: string, value?: string): ResponseCardBuilder {
+    this.current().buttons.push({ text, value: value ?? text });
+    return this;
+  }
+
+  /**
+   * Adds a button for each value.  Lex allows only 5 buttons per attachment, so when there are more, further
+   * attachments with the same title and sub-title are started.  Button text is truncated to the Lex limit.
+   *
+   * @param values
+   */
+  public buttons(values: string[]): ResponseCardBuilder {
+    values.forEach((value) => {
+      const current = this.current();
+      if (current.buttons.length >= ResponseCardLimits.buttonsPerAttachment) {
+        this.attachment().title(current.title).subTitle(current.subTitle);
+      }
+      this.button(value.substring(0, ResponseCardLimits.buttonTextLength), value);
+    });
+    return this;
+  }
+
+  /**
+   * Returns the response card.  Throws a LexHookError if the card exceeds Lex limits.
+   */
+  public build(): ResponseCard {
+    const limits = ResponseCardLimits;
+    const check = (exceeded: boolean, what: string, limit: number): void => {
+      if (exceeded) throw new LexHookError(`response card ${what} exceeds limit of ${limit}`);
+    };
+
+    check(this.attachments.length > limits.attachments, 'attachment count', limits.attachments);
+    this.attachments.forEach((a) => {
+      check(!!a.title && a.title.length > limits.titleLength, 'title length', limits.titleLength);
+      check(!!a.subTitle && a.subTitle.length > limits.subTitleLength, 'sub-title length', limits.subTitleLength);
+      check(a.buttons.length > limits.buttonsPerAttachment, 'button count', limits.buttonsPerAttachment);
+      a.buttons.forEach((b) => {
+        check(b.text.length > limits.buttonTextLength, 'button text length', limits.buttonTextLength);
+        check(b.value.length > limits.buttonValueLength, 'button value length', limits.buttonValueLength);
+      });
+    });
+
+    return {
+      version: 1,
+      contentType: 'application/vnd.amazonaws.card.generic',
+      genericAttachments: this.attachments.map((a) => ({ ...a, buttons: [...a.buttons] })),
+    };
+  }
+
+  private current(): LexGenericAttachment {
+    if (this.attachments.length === 0) this.attachment();
+    return this.attachments[this.attachments.length - 1];
+  }
+}
+
+/**
+ * Builds SSML for voice channels.  Text is escaped; the result is wrapped in a speak element.
+ *
+ *     new SsmlBuilder().text('Your order number is').sayAs('1234', 'digits').build()
+ */
+export class SsmlBuilder {
+  private parts: string[] = [];
+
+  public text(text: string): SsmlBuilder {
+    this.parts.push(SsmlBuilder.escape(text));
+    return this;
+  }
+
+  /**
+   * @param ms - length of the pause in milliseconds
+   */
+  public pause(ms: number): SsmlBuilder {
+    this.parts.push(`<break time="${ms}ms"/>`);
+    return this;
+  }
+
+  public emphasis(text: string, level: 'strong' | 'moderate' | 'reduced' = 'moderate'): SsmlBuilder {
+    this.parts.push(`<emphasis level="${level}">${SsmlBuilder.escape(text)}</emphasis>`);
+    return this;
+  }
+
+  /**
+   * @param text
+   * @param interpretAs - e.g. 'digits', 'date', 'telephone'
+   */
+  public sayAs(text: string, interpretAs: string): SsmlBuilder {
+    this.parts.push(`<say-as interpret-as="${interpretAs}">${SsmlBuilder.escape(text)}</say-as>`);
+    return this;
+  }
+
+  public build(): ResponseMessage {
+    return { contentType: 'SSML', content: `<speak>${this.parts.join(' ')}</speak>` };
+  }
+
+  public static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
+
+/**
+ * A message within a message group.
+ */
+export interface GroupedMessage {
+  type: 'PlainText' | 'SSML' | 'CustomPayload';
+  group: number;
+  value: string;
+}
+
+/**
+ * Builds a message group: several messages delivered together as the JSON content of a single CustomPayload
+ * message.  Messages are numbered into groups in the order they are added, unless a group is specified.
+ *
+ *     new MessageGroupBuilder().plainText('Thanks!').plainText('Anything else?').build()
+ */
+export class MessageGroupBuilder {
+  private messages: GroupedMessage[] = [];
+
+  public add(type: GroupedMessage['type'], value: string, group?: number): MessageGroupBuilder {
+    this.messages.push({ type, value, group: group ?? this.messages.length + 1 });
+    return this;
+  }
+
+  public plainText(value: string, group?: number): MessageGroupBuilder {
+    return this.add('PlainText', value, group);
+  }
+
+  public ssml(value: string, group?: number): MessageGroupBuilder {
+    return this.add('SSML', value, group);
+  }
+
+  public customPayload(value: string, group?: number): MessageGroupBuilder {
+    return this.add('CustomPayload', value, group);
+  }
+
+  public build(): ResponseMessage {
+    return { contentType: 'CustomPayload', content: JSON.stringify({ messages: this.messages }) };
+  }
+}
+
+/**
+ * Shorthand for single messages.
+ */
+export class Messages {
+  public static plainText = (content: string): ResponseMessage => ({ contentType: 'PlainText', content });
+
+  public static ssml = (content: string): ResponseMessage => ({
+    contentType: 'SSML',
+    content: content.trim().startsWith('<speak>') ? content : `<speak>${content}</speak>`,
+  });
+
+  public static customPayload = (payload: unknown): ResponseMessage => ({
+    contentType: 'CustomPayload',
+    content: typeof payload === 'string' ? payload : JSON.stringify(payload),
+  });
+}
@@ -0,0 +1,214 @@
+import { LexEvent, LexResult, LexResultFactory } from './lex-hook';
+import { Middleware } from './middleware';
+
+/**
+ * When sentiment analysis is enabled for a Bot, each LexEvent includes a sentimentResponse.  A SentimentPolicy
+ * classifies it against thresholds, tracks the trend across turns in a session attribute, and decides how to
+ * react: with softer prompts, by skipping optional Slots, or by escalating to a human-handoff Intent.
+ *
+ * A SentimentPolicy can be used from route, via asMiddleware(), and/or from DefaultDialogEventHandler, via the
+ * sentimentPolicy of its config.  Each LexEvent is recorded once, however many times it is assessed.
+ */
+
+export interface SentimentPolicyConfig {
+  /**
+   * A turn is negative if its Negative score is at least this.  Defaults to 0.7.
+   */
+  negativeThreshold?: number;
+  /**
+   * A turn is also negative if its Mixed score is at least this.  Defaults to 0.7.
+   */
+  mixedThreshold?: number;
+  /**
+   * The number of recent turns tracked.  Defaults to 3.
+   */
+  trendWindow?: number;
+  /**
+   * Escalate once this many of the tracked turns are negative.  If not specified, there is no escalation.
+   */
+  escalateAfter?: number;
+  /**
+   * The Intent escalated to.  The default escalation responder asks the user to confirm it.
+   */
+  handoffIntentName?: string;
+  /**
+   * The message of the default escalation responder, e.g. 'Would you like to speak to an agent?'
+   */
+  handoffMessage?: string;
+  /**
+   * An optional function.  If specified, will be used to generate an appropriate Lex result on escalation.
+   */
+  escalationResponder?: (lexEvent: LexEvent, assessment: SentimentAssessment) => LexResult | Promise<LexResult>;
+  /**
+   * An optional function that softens a prompt message when the current turn is negative, e.g.
+   * (prompt) => `Sorry for the trouble. ${prompt}`.  Used by DefaultDialogEventHandler when re-eliciting a Slot.
+   */
+  softenPrompt?: (promptMessage: string, lexEvent: LexEvent) => string;
+  /**
+   * If true, DefaultDialogEventHandler does not elicit optional Slots when the current turn is negative.
+   */
+  skipOptionalSlots?: boolean;
+  /**
+   * The session attribute in which the trend is tracked.  Defaults to 'lexhook.sentiment'.
+   */
+  attributeName?: string;
+}
+
+/**
+ * The assessment of a turn.
+ */
+export interface SentimentAssessment {
+  /**
+   * The SentimentLabel of the turn, or undefined if sentiment analysis is not enabled
+   */
+  label?: string;
+  /**
+   * Is the turn negative, according to the thresholds?
+   */
+  negative: boolean;
+  /**
+   * Whether each tracked turn was negative, oldest first, including the current one
+   */
+  trend: boolean[];
+  /**
+   * Should the conversation be escalated?
+   */
+  escalate: boolean;
+}
+
+export class SentimentPolicy {
+  protected config: SentimentPolicyConfig;
+
+  /**
+   * Assessments of the LexEvents already recorded
+   */
+  private recorded = new WeakMap<LexEvent, SentimentAssessment>();
+
+  constructor(config: SentimentPolicyConfig = {}) {
+    this.config = {
+      negativeThreshold: 0.7,
+      mixedThreshold: 0.7,
+      trendWindow: 3,
+      attributeName: 'lexhook.sentiment',
+      ...config,
+    };
+  }
+
+  /**
+   * Assesses the current turn and records it in the trend, which is written to the session attributes of the
+   * LexEvent.  On escalation, the trend starts over.  Recording a LexEvent again returns the same assessment.
+   *
+   * @param lexEvent
+   */
+  public record(lexEvent: LexEvent): SentimentAssessment {
+    if (this.recorded.has(lexEvent)) return this.recorded.get(lexEvent);
+
+    const assessment = this.assess(lexEvent);
+    if (assessment.label !== undefined) {
+      lexEvent.sessionAttributes = lexEvent.sessionAttributes || {};
+      lexEvent.sessionAttributes[this.config.attributeName] = JSON.stringify(
+        assessment.escalate ? [] : assessment.trend.map(Number),
+      );
+    }
+
+    this.recorded.set(lexEvent, assessment);
+    return assessment;
+  }
+
+  /**
+   * Assesses the current turn, in the light of the trend, without recording it.
+   *
+   * @param lexEvent
+   */
+  public assess(lexEvent: LexEvent): SentimentAssessment {
+    const sr = lexEvent.sentimentResponse;
+    const previous = this.getTrend(lexEvent);
+    if (!sr) return { negative: false, trend: previous, escalate: false };
+
+    const scores = sr.SentimentScore || { Negative: 0, Mixed: 0 };
+    const negative = scores.Negative >= this.config.negativeThreshold || scores.Mixed >= this.config.mixedThreshold;
+    const trend = [...previous, negative].slice(-this.config.trendWindow);
+    const escalate =
+      this.config.escalateAfter !== undefined && trend.filter((n) => n).length >= this.config.escalateAfter;
+
+    return { label: sr.SentimentLabel, negative, trend, escalate };
+  }
+
+  /**
+   * Returns the LexResult that escalates the conversation, or undefined if no escalation is configured.
+   *
+   * @param lexEvent
+   * @param assessment
+   */
+  public async escalate(lexEvent: LexEvent, assessment: SentimentAssessment): Promise<LexResult | undefined> {
+    if (this.config.escalationResponder) return this.config.escalationResponder(lexEvent, assessment);
+    if (!this.config.handoffIntentName) return undefined;
+
+    return LexResultFactory.dialogActionConfirmIntent({
+      intentName: this.config.handoffIntentName,
+      slots: {},
+      message: this.config.handoffMessage
+        ? { contentType: 'PlainText', content: this.config.handoffMessage }
+        : undefined,
+      sessionAttributes: lexEvent.sessionAttributes,
+    });
+  }
+
+  /**
+   * Returns the prompt message, softened if the current turn is negative and softenPrompt is configured.
+   *
+   * @param promptMessage
+   * @param lexEvent
+   */
+  public softenPrompt(promptMessage: string, lexEvent: LexEvent): string {
+    if (!this.config.softenPrompt || !this.record(lexEvent).negative) return promptMessage;
+    return this.config.softenPrompt(promptMessage, lexEvent);
+  }
+
+  /**
+   * Should optional Slots be skipped this turn?
+   *
+   * @param lexEvent
+   */
+  public skipOptionalSlots(lexEvent: LexEvent): boolean {
+    return !!this.config.skipOptionalSlots && this.record(lexEvent).negative;
+  }
+
+  /**
+   * Returns Middleware that records each turn and, on escalation, ends handling with the escalation LexResult.
+   * The assessment is available to later middleware as context.state.sentiment.
+   */
+  public asMiddleware(): Middleware {
+    return {
+      name: 'sentiment',
+      before: async (lexEvent, context) => {
+        const assessment = this.record(lexEvent);
+        context.state.sentiment = assessment;
+        if (assessment.escalate) return this.escalate(lexEvent, assessment);
+      },
+      after: (lexEvent, lexResult) => {
+        const trend = lexEvent.sessionAttributes && lexEvent.sessionAttributes[this.config.attributeName];
+        if (trend !== undefined) {
+          lexResult.sessionAttributes = { ...lexResult.sessionAttributes, [this.config.attributeName]: trend };
+        }
+      },
+    };
+  }
+
+  /**
+   * Reads the trend from the session attributes.
+   *
+   * @param lexEvent
+   */
+  protected getTrend(lexEvent: LexEvent): boolean[] {
+    const value = lexEvent.sessionAttributes ? lexEvent.sessionAttributes[this.config.attributeName] : undefined;
+    if (!value) return [];
+
+    try {
+      const trend = JSON.parse(value);
+      return Array.isArray(trend) ? trend.map(Boolean) : [];
+    } catch (e) {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,261 @@
+import { LexEvent, LexResult, EventHandler } from './lex-hook';
+import { SessionSizeExceededError } from './errors';
+
+/**
+ * Lex session attributes are a flat map of strings.  The SessionStore layers a typed API over them: attributes are
+ * declared in a schema, values are coerced to and from strings (objects and arrays as JSON), and changes are
+ * written back into the LexResult returned by a handler.
+ *
+ *     const schema = {
+ *       cart: SessionAttributes.json<string[]>([]),
+ *       attempts: SessionAttributes.number(0),
+ *       step: SessionAttributes.string(undefined, { intentScoped: true }),
+ *     };
+ *
+ *     export const fulfill = withSession(schema, async (lexEvent, session) => {
+ *       session.set('cart', [...session.get('cart'), lexEvent.currentIntent.slots.item]);
+ *       return LexResultFactory.dialogActionClose({ fulfillmentState: 'Fulfilled' });
+ *     });
+ */
+
+/**
+ * The combined size of session and request attributes allowed by Lex, in bytes.
+ */
+export const MAX_SESSION_SIZE = 12 * 1024;
+
+export interface SessionAttributeDefinition<T> {
+  type: 'string' | 'number' | 'boolean' | 'json';
+  /**
+   * The value returned by get when the attribute is not set, or cannot be parsed.
+   */
+  default?: T;
+  /**
+   * If true, the attribute is stored separately for each Intent, i.e. the key is prefixed with the Intent name.
+   */
+  intentScoped?: boolean;
+}
+
+export interface SessionSchema {
+  [name: string]: SessionAttributeDefinition<unknown>;
+}
+
+/**
+ * The type of each attribute value declared by a schema.
+ */
+export type SessionValues<S extends SessionSchema> = {
+  [K in keyof S]: S[K] extends SessionAttributeDefinition<infer T> ? T : never;
+};
+
+type DefinitionOptions = Pick<SessionAttributeDefinition<unknown>, 'intentScoped'>;
+
+/**
+ * Functions that declare attributes within a SessionSchema.
+ */
+export class SessionAttributes {
+  public static string = (defaultValue?: string, options?: DefinitionOptions): SessionAttributeDefinition<string> => ({
+    type: 'string',
+    default: defaultValue,
+    ...options,
+  });
+
+  public static number = (defaultValue?: number, options?: DefinitionOptions): SessionAttributeDefinition<number> => ({
+    type: 'number',
+    default: defaultValue,
+    ...options,
+  });
+
+  public static boolean = (
+    defaultValue?: boolean,
+    options?: DefinitionOptions,
+  ): SessionAttributeDefinition<boolean> => ({
+    type: 'boolean',
+    default: defaultValue,
+    ...options,
+  });
+
+  public static json = <T>(defaultValue?: T, options?: DefinitionOptions): SessionAttributeDefinition<T> => ({
+    type: 'json',
+    default: defaultValue,
+    ...options,
+  });
+}
+
+export interface SessionStoreOptions {
+  /**
+   * Optional prefix for the keys of every attribute in the schema, e.g. 'orders' stores cart as 'orders.cart'.
+   */
+  namespace?: string;
+  /**
+   * The combined size of session and request attributes allowed, in bytes.  Defaults to MAX_SESSION_SIZE.
+   */
+  maxSize?: number;
+}
+
+/**
+ * Typed access to the session attributes of a LexEvent.  Values are read from, and written to, the
+ * sessionAttributes of the LexEvent itself, so results created with lexEvent.sessionAttributes include
+ * changes.  writeBack copies changes into any other LexResult.
+ */
+export class SessionStore<S extends SessionSchema> {
+  protected lexEvent: LexEvent;
+  protected schema: S;
+  protected options: SessionStoreOptions;
+  /**
+   * keys of the attributes set or deleted via this store
+   */
+  protected changed: Set<string> = new Set();
+
+  constructor(lexEvent: LexEvent, schema: S, options: SessionStoreOptions = {}) {
+    this.lexEvent = lexEvent;
+    this.schema = schema;
+    this.options = { maxSize: MAX_SESSION_SIZE, ...options };
+    if (!this.lexEvent.sessionAttributes) this.lexEvent.sessionAttributes = {};
+  }
+
+  /**
+   * Returns the value of an attribute, or its default if it is not set or cannot be parsed.  A json default is
+   * copied, so that changes to the value returned do not change the default.
+   *
+   * @param name
+   */
+  public get<K extends keyof S & string>(name: K): SessionValues<S>[K] {
+    const definition = this.schema[name];
+    const raw = this.lexEvent.sessionAttributes[this.getKey(name)];
+    const value = raw === undefined || raw === null ? undefined : SessionStore.deserialize(definition, raw);
+    if (value !== undefined) return value as SessionValues<S>[K];
+
+    const copy = definition.type === 'json' && definition.default !== undefined;
+    return (copy ? JSON.parse(JSON.stringify(definition.default)) : definition.default) as SessionValues<S>[K];
+  }
+
+  /**
+   * Sets the value of an attribute.  Setting null or undefined deletes it.
+   *
+   * @param name
+   * @param value
+   */
+  public set<K extends keyof S & string>(name: K, value: SessionValues<S>[K]): void {
+    if (value === null || value === undefined) return this.delete(name);
+
+    const key = this.getKey(name);
+    this.lexEvent.sessionAttributes[key] = SessionStore.serialize(this.schema[name], value);
+    this.changed.add(key);
+  }
+
+  /**
+   * Deletes an attribute.
+   *
+   * @param name
+   */
+  public delete<K extends keyof S & string>(name: K): void {
+    const key = this.getKey(name);
+    delete this.lexEvent.sessionAttributes[key];
+    this.changed.add(key);
+  }
+
+  /**
+   * Returns the values of every attribute in the schema.
+   */
+  public getAll(): SessionValues<S> {
+    const values: Partial<SessionValues<S>> = {};
+    Object.keys(this.schema).forEach((name: keyof S & string) => (values[name] = this.get(name)));
+    return values as SessionValues<S>;
+  }
+
+  /**
+   * Returns the combined size of session and request attributes, in bytes.
+   *
+   * @param sessionAttributes - defaults to those of the LexEvent
+   */
+  public size(sessionAttributes: { [key: string]: string } = this.lexEvent.sessionAttributes): number {
+    const size = (attrs: { [key: string]: string }) => (attrs ? Buffer.byteLength(JSON.stringify(attrs), 'utf8') : 0);
+    return size(sessionAttributes) + size(this.lexEvent.requestAttributes);
+  }
+
+  /**
+   * Throws a SessionSizeExceededError if session and request attributes exceed the maximum size.
+   *
+   * @param sessionAttributes - defaults to those of the LexEvent
+   */
+  public checkSize(sessionAttributes: { [key: string]: string } = this.lexEvent.sessionAttributes): void {
+    const size = this.size(sessionAttributes);
+    if (size > this.options.maxSize) throw new SessionSizeExceededError(size, this.options.maxSize);
+  }
+
+  /**
+   * Copies the attributes set or deleted via this store into a LexResult.  Other session attributes of the
+   * LexResult are kept as the handler returned them, e.g. {} clears the session; if it has none, those of the
+   * LexEvent are used.  Throws a SessionSizeExceededError if the resulting session exceeds the maximum size.
+   *
+   * @param lexResult
+   */
+  public writeBack(lexResult: LexResult): LexResult {
+    const attrs = { ...(lexResult.sessionAttributes || this.lexEvent.sessionAttributes) };
+    this.changed.forEach((key) => {
+      const value = this.lexEvent.sessionAttributes[key];
+      if (value === undefined) delete attrs[key];
+      else attrs[key] = value;
+    });
+    this.checkSize(attrs);
+    lexResult.sessionAttributes = attrs;
+
+    return lexResult;
+  }
+
+  /**
+   * Returns the session attribute key of an attribute.
+   *
+   * @param name
+   */
+  protected getKey(name: string): string {
+    const intentName = this.lexEvent.currentIntent ? this.lexEvent.currentIntent.name : undefined;
+    return [this.options.namespace, this.schema[name].intentScoped ? intentName : undefined, name]
+      .filter((part) => part)
+      .join('.');
+  }
+
+  protected static serialize(definition: SessionAttributeDefinition<unknown>, value: unknown): string {
+    return definition.type === 'json' ? JSON.stringify(value) : String(value);
+  }
+
+  protected static deserialize(definition: SessionAttributeDefinition<unknown>, raw: string): unknown {
+    switch (definition.type) {
+      case 'number': {
+        const n = Number(raw);
+        return raw.trim() === '' || isNaN(n) ? undefined : n;
+      }
+      case 'boolean':
+        return raw === 'true' ? true : raw === 'false' ? false : undefined;
+      case 'json':
+        try {
+          return JSON.parse(raw);
+        } catch (e) {
+          return undefined;
+        }
+      default:
+        return raw;
+    }
+  }
+}
+
+/**
+ * Creates an EventHandler whose handle function is given a SessionStore, and whose LexResult automatically
+ * includes the session attributes.
+ *
+ * @param schema
+ * @param handle
+ * @param options
+ */
+export const withSession = <S extends SessionSchema>(
+  schema: S,
+  handle: (lexEvent: LexEvent, session: SessionStore<S>) => Promise<LexResult>,
+  options?: SessionStoreOptions,
+): EventHandler => {
+  return {
+    handle: async (lexEvent: LexEvent): Promise<LexResult> => {
+      const session = new SessionStore(lexEvent, schema, options);
+      const lr: LexResult = await handle(lexEvent, session);
+      return session.writeBack(lr);
+    },
+  };
+};
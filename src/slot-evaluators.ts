@@ -0,0 +1,367 @@
+import { LexEvent, Util } from './lex-hook';
+import {
+  BaseSlotEvaluator,
+  EvaluatableSlotValue,
+  SlotEvaluationResult,
+  SlotEvaluator,
+  SlotValidationAssessment,
+} from './default-dialog';
+
+/**
+ * A library of re-usable SlotEvaluators, in addition to those @ ./default-dialog.ts.  Each tests a single Slot
+ * value, and can be combined with others using SlotEvaluators.and, .or and .not, e.g.
+ *
+ *     SlotEvaluators.and(
+ *       new NumericRangeSlotEvaluator('quantity', 'How many?', { min: 1, max: 12, integer: true }),
+ *       SlotEvaluators.not(new PatternSlotEvaluator('quantity', 'How many?', /^13$/)),
+ *     );
+ */
+
+/**
+ * A SlotEvaluator defined by a test of the Slot value.  A null Slot value is invalid, unless the recent Slot
+ * value is recognized, as with every BaseSlotEvaluator.
+ */
+export abstract class PredicateSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
+  /**
+   * Returns true if the (non-null) Slot value is valid.
+   *
+   * @param value
+   */
+  public abstract test(value: string): boolean;
+
+  /**
+   * Returns VALID_SLOT if the Slot value passes the test.  Returns VALID_RECENT_SLOT if super-class isValid
+   * method returns so.
+   *
+   * @param slotValue
+   */
+  public isValid(slotValue: EvaluatableSlotValue): SlotValidationAssessment {
+    const sva: SlotValidationAssessment = super.isValid(slotValue);
+    if (sva === SlotValidationAssessment.INVALID) {
+      return slotValue.value != null && this.test(slotValue.value)
+        ? SlotValidationAssessment.VALID_SLOT
+        : SlotValidationAssessment.INVALID;
+    }
+    return sva;
+  }
+}
+
+/**
+ * Combines other SlotEvaluators.  See SlotEvaluators.
+ */
+export class CompositeSlotEvaluator<S extends string = string> extends BaseSlotEvaluator<S> {
+  private combine: (lexEvent: LexEvent) => Promise<string | null>;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param combine - resolves the valid Slot value, canonicalized by the evaluators combined, or null if invalid
+   */
+  constructor(slotName: S, promptMessage: string, combine: (lexEvent: LexEvent) => Promise<string | null>) {
+    super(slotName, promptMessage);
+    this.combine = combine;
+  }
+
+  /**
+   * Returns VALID_RECENT_SLOT if super-class isValid method returns so.  Otherwise, evaluates the combined
+   * SlotEvaluators, each of which considers its own candidate values (see getCandidateValues).
+   *
+   * @param lexEvent
+   */
+  public async evaluate(lexEvent: LexEvent): Promise<SlotEvaluationResult> {
+    const slotValue: EvaluatableSlotValue = this.getSlotValue(lexEvent);
+    const va: SlotValidationAssessment = this.isValid(slotValue);
+    if (va !== SlotValidationAssessment.INVALID) return new SlotEvaluationResult(va, slotValue);
+
+    const value = await this.combine(lexEvent);
+    return value === null
+      ? new SlotEvaluationResult(SlotValidationAssessment.INVALID, slotValue)
+      : this.createResult(SlotValidationAssessment.VALID_SLOT, slotValue, value);
+  }
+}
+
+/**
+ * Returns the Slot value a SlotEvaluator found valid, or null if it found it invalid.
+ *
+ * @param evaluator
+ * @param lexEvent
+ */
+const validValue = async <S extends string>(
+  evaluator: SlotEvaluator<S>,
+  lexEvent: LexEvent,
+): Promise<string | null> => {
+  const result: SlotEvaluationResult = await evaluator.evaluate(lexEvent);
+  if (result.valid === SlotValidationAssessment.INVALID) return null;
+
+  const newValue = result.newSlots ? result.newSlots[evaluator.slotName] : undefined;
+  return newValue ?? lexEvent.currentIntent.slots[evaluator.slotName];
+};
+
+/**
+ * Returns a copy of a LexEvent with a Slot value replaced.
+ *
+ * @param lexEvent
+ * @param slotName
+ * @param value
+ */
+const withSlotValue = (lexEvent: LexEvent, slotName: string, value: string): LexEvent => ({
+  ...lexEvent,
+  currentIntent: { ...lexEvent.currentIntent, slots: { ...lexEvent.currentIntent.slots, [slotName]: value } },
+});
+
+/**
+ * Combinators of SlotEvaluators.  The combined SlotEvaluator takes its Slot name and prompt message from the first
+ * evaluator combined.  Each evaluator is evaluated as a whole, so the Slot value is canonicalized by it, e.g. a
+ * PhoneNumberSlotEvaluator removes spaces and parentheses before a PatternSlotEvaluator combined with it tests
+ * the number.
+ */
+export class SlotEvaluators {
+  /**
+   * Valid if every evaluator finds the Slot value valid.  Each evaluator is given the Slot value as
+   * canonicalized by the evaluators before it.
+   *
+   * @param evaluators
+   */
+  public static and = <S extends string>(...evaluators: SlotEvaluator<S>[]): CompositeSlotEvaluator<S> => {
+    const { slotName, promptMessage } = evaluators[0];
+
+    return new CompositeSlotEvaluator(slotName, promptMessage, async (lexEvent) => {
+      let event = lexEvent;
+      for (const e of evaluators) {
+        const value = await validValue(e, event);
+        if (value === null) return null;
+        event = withSlotValue(event, slotName, value);
+      }
+      return event.currentIntent.slots[slotName];
+    });
+  };
+
+  /**
+   * Valid if any evaluator finds the Slot value valid.  The Slot value is canonicalized by the first such
+   * evaluator.
+   *
+   * @param evaluators
+   */
+  public static or = <S extends string>(...evaluators: SlotEvaluator<S>[]): CompositeSlotEvaluator<S> => {
+    return new CompositeSlotEvaluator(evaluators[0].slotName, evaluators[0].promptMessage, async (lexEvent) => {
+      for (const e of evaluators) {
+        const value = await validValue(e, lexEvent);
+        if (value !== null) return value;
+      }
+      return null;
+    });
+  };
+
+  /**
+   * Valid if the evaluator finds the (non-null) Slot value invalid.
+   *
+   * @param evaluator
+   */
+  public static not = <S extends string>(evaluator: SlotEvaluator<S>): CompositeSlotEvaluator<S> => {
+    return new CompositeSlotEvaluator(evaluator.slotName, evaluator.promptMessage, async (lexEvent) => {
+      const value = lexEvent.currentIntent.slots[evaluator.slotName];
+      return value != null && (await validValue(evaluator, lexEvent)) === null ? value : null;
+    });
+  };
+}
+
+/**
+ * Bounds of a numeric value.  Both are inclusive.
+ */
+export interface RangeOptions {
+  min?: number;
+  max?: number;
+}
+
+const inRange = (n: number, range: RangeOptions): boolean =>
+  (range.min === undefined || n >= range.min) && (range.max === undefined || n <= range.max);
+
+/**
+ * Ensure that a Slot value is a number within a range, e.g. an AMAZON.NUMBER quantity.
+ */
+export class NumericRangeSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private options: RangeOptions & { integer?: boolean };
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param options - inclusive bounds, and whether the number must be an integer
+   */
+  constructor(slotName: S, promptMessage: string, options: RangeOptions & { integer?: boolean } = {}) {
+    super(slotName, promptMessage);
+    this.options = options;
+  }
+
+  public test(value: string): boolean {
+    if (value.trim() === '') return false;
+
+    const n = Number(value);
+    return Number.isFinite(n) && (!this.options.integer || Number.isInteger(n)) && inRange(n, this.options);
+  }
+}
+
+/**
+ * Ensure that a Slot value matches a regular expression.
+ */
+export class PatternSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private pattern: RegExp;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param pattern - should be anchored, e.g. /^[A-Z]{3}\d{4}$/, to match the whole value
+   */
+  constructor(slotName: S, promptMessage: string, pattern: RegExp) {
+    super(slotName, promptMessage);
+    this.pattern = pattern;
+  }
+
+  public test(value: string): boolean {
+    this.pattern.lastIndex = 0;
+    return this.pattern.test(value);
+  }
+}
+
+/**
+ * Ensure that the length of a Slot value is within a range.
+ */
+export class LengthSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private options: RangeOptions;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param options - inclusive bounds of the length
+   */
+  constructor(slotName: S, promptMessage: string, options: RangeOptions) {
+    super(slotName, promptMessage);
+    this.options = options;
+  }
+
+  public test(value: string): boolean {
+    return inRange(value.length, this.options);
+  }
+}
+
+/**
+ * Ensure that a Slot value looks like an email address.  Lex transcribes spoken addresses as e.g.
+ * 'pat at example dot com', so 'at' and 'dot' are accepted for '@' and '.'.
+ */
+export class EmailSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  public test(value: string): boolean {
+    return /^[^\s@]+@[^\s@]+\.[^\s@.]{2,}$/.test(value);
+  }
+
+  protected canonicalize(value: string): string {
+    return value
+      .trim()
+      .replace(/\s+at\s+/gi, '@')
+      .replace(/\s+dot\s+/gi, '.');
+  }
+}
+
+/**
+ * Ensure that a Slot value is a phone number in E.164 format, e.g. +14155550123.  Spaces, dashes, dots and
+ * parentheses are removed first, so '+1 (415) 555-0123' becomes +14155550123.
+ */
+export class PhoneNumberSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  public test(value: string): boolean {
+    return /^\+[1-9]\d{1,14}$/.test(value);
+  }
+
+  protected canonicalize(value: string): string {
+    return value.replace(/[\s\-.()]/g, '');
+  }
+}
+
+/**
+ * Ensure that a Slot value is a US ZIP code, e.g. 94105 or 94105-1420.
+ */
+export class ZipCodeSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  public test(value: string): boolean {
+    return /^\d{5}(-\d{4})?$/.test(value);
+  }
+}
+
+/**
+ * Ensure that a Slot value is an AMAZON.TIME value: a 24 hour time, e.g. 14:30, or a time of day, i.e. MO
+ * (morning), AF (afternoon), EV (evening) or NI (night).
+ */
+export class TimeSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private allowTimeOfDay: boolean;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param allowTimeOfDay - are MO, AF, EV and NI valid?  Defaults to true.
+   */
+  constructor(slotName: S, promptMessage: string, allowTimeOfDay = true) {
+    super(slotName, promptMessage);
+    this.allowTimeOfDay = allowTimeOfDay;
+  }
+
+  public test(value: string): boolean {
+    if (['MO', 'AF', 'EV', 'NI'].includes(value)) return this.allowTimeOfDay;
+    return /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+  }
+}
+
+/**
+ * Ensure that a Slot value is a valid date (YYYY-MM-DD) within a number of days of today, e.g. "must be in the
+ * future, within 90 days" is { min: 1, max: 90 }.
+ */
+export class RelativeDateSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private options: RangeOptions;
+  private now: () => Date;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param options - inclusive bounds, in days from today; negative numbers are in the past
+   * @param now - returns the current date and time.  Defaults to () => new Date().
+   */
+  constructor(slotName: S, promptMessage: string, options: RangeOptions, now: () => Date = () => new Date()) {
+    super(slotName, promptMessage);
+    this.options = options;
+    this.now = now;
+  }
+
+  public test(value: string): boolean {
+    if (!Util.isValidLexDate(value)) return false;
+
+    const now = this.now();
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const days = Math.round((new Date(`${value}T00:00:00`).getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+    return inRange(days, this.options);
+  }
+}
+
+/**
+ * Ensure that a Slot value is an AMAZON.DURATION value, i.e. an ISO 8601 duration such as PT15M, optionally
+ * within a range of seconds.
+ */
+export class DurationSlotEvaluator<S extends string = string> extends PredicateSlotEvaluator<S> {
+  private options: RangeOptions;
+
+  /**
+   *
+   * @param slotName - Slot name
+   * @param promptMessage - Prompt message that can be used to Elicit a Slot.
+   * @param options - inclusive bounds, in seconds
+   */
+  constructor(slotName: S, promptMessage: string, options: RangeOptions = {}) {
+    super(slotName, promptMessage);
+    this.options = options;
+  }
+
+  public test(value: string): boolean {
+    const seconds = Util.parseDuration(value);
+    return seconds !== undefined && inRange(seconds, this.options);
+  }
+}
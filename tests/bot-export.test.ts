@@ -0,0 +1,159 @@
+import { LexDialogActionElicitSlot } from 'aws-lambda';
+import {
+    LexHookBotExport as lxbe,
+    LexHookDialog as lxd,
+    LexHookErrors as lxe,
+    LexHookEvents as lxev
+}  from '../src/index';
+
+
+const lexExport: lxbe.LexV1Export = {
+    metadata: { schemaVersion: '1.0', importType: 'LEX', importFormat: 'JSON' },
+    resource: {
+        name: 'OrderFlowersBot',
+        version: '1',
+        intents: [{
+            name: 'OrderFlowers',
+            version: '1',
+            sampleUtterances: ['I would like to order some flowers'],
+            slots: [{
+                name: 'PickupDate',
+                slotConstraint: 'Required',
+                slotType: 'AMAZON.DATE',
+                valueElicitationPrompt: {
+                    messages: [{ contentType: 'PlainText', content: 'What day do you want the {FlowerType}?' }],
+                    maxAttempts: 2,
+                },
+                priority: 2,
+            }, {
+                name: 'FlowerType',
+                slotConstraint: 'Required',
+                slotType: 'FlowerTypes',
+                slotTypeVersion: '1',
+                valueElicitationPrompt: {
+                    messages: [{ contentType: 'PlainText', content: 'What type of flowers would you like?' }],
+                    maxAttempts: 2,
+                },
+                priority: 1,
+            }, {
+                name: 'Note',
+                slotConstraint: 'Optional',
+                slotType: 'AMAZON.AlphaNumeric',
+                priority: 3,
+            }],
+            confirmationPrompt: {
+                messages: [{ contentType: 'PlainText', content: 'Okay, shall I order your {FlowerType}?' }],
+                maxAttempts: 3,
+            },
+            dialogCodeHook: { uri: 'arn:aws:lambda:us-east-1:123456789012:function:hook', messageVersion: '1.0' },
+            fulfillmentActivity: { type: 'ReturnIntent' },
+        }],
+        slotTypes: [{
+            name: 'FlowerTypes',
+            version: '1',
+            enumerationValues: [
+                { value: 'tulips' },
+                { value: 'lilies' },
+                { value: 'roses', synonyms: ['rose', 'red flowers'] },
+            ],
+            valueSelectionStrategy: 'ORIGINAL_VALUE',
+        }],
+    },
+};
+
+
+describe('bot export', () => {
+    test('test case: a bot export is read into a bot definition, with slots in priority order', async () => {
+        const bot = lxbe.BotExports.fromLexV1Export(JSON.stringify(lexExport));
+
+        expect(bot.name).toEqual('OrderFlowersBot');
+        expect(bot.intents[0].slots.map((s) => s.name)).toEqual(['FlowerType', 'PickupDate', 'Note']);
+        expect(bot.intents[0].slots[0]).toEqual({
+            name: 'FlowerType',
+            slotType: 'FlowerTypes',
+            required: true,
+            prompt: 'What type of flowers would you like?',
+        });
+        expect(bot.intents[0].slots[2].required).toBe(false);
+        expect(bot.intents[0].confirmationPrompt).toEqual('Okay, shall I order your {FlowerType}?');
+        expect(bot.intents[0].dialogCodeHook).toBe(true);
+        expect(bot.intents[0].fulfillmentCodeHook).toBe(false);
+        expect(bot.slotTypes[0].values[2]).toEqual({ value: 'roses', synonyms: ['rose', 'red flowers'] });
+    });
+
+    test('test case: an intent export is read as a bot with one intent', async () => {
+        const { intents, slotTypes, ...bot } = lexExport.resource;
+        const intentExport = { ...lexExport, resource: { ...intents[0], slotTypes } };
+
+        expect(bot.name).toEqual('OrderFlowersBot');
+        const definition = lxbe.BotExports.fromLexV1Export(intentExport);
+        expect(definition.intents.map((i) => i.name)).toEqual(['OrderFlowers']);
+        expect(definition.slotTypes.map((st) => st.name)).toEqual(['FlowerTypes']);
+    });
+
+    test('test case: an export in another format is rejected', async () => {
+        const metadata = { ...lexExport.metadata, importType: 'ALEXA_SKILLS_KIT' };
+        expect(() => lxbe.BotExports.fromLexV1Export({ ...lexExport, metadata })).toThrow('not a Lex V1 export');
+        expect(() => lxbe.BotExports.fromLexV1Export('{}')).toThrow(lxe.LexHookError);
+        expect(() => lxbe.BotExports.fromLexV1Export('{')).toThrow(lxe.LexHookError);
+        const parseError = ((): string => {
+            try { JSON.parse('{'); } catch (e) { return e.message; }
+        })();
+        expect(() => lxbe.BotExports.fromLexV1Export('{')).toThrow(`JSON is malformed: ${parseError}`);
+    });
+
+    test('test case: intent and slot name constants are generated', async () => {
+        const source = lxbe.BotExports.generateNames(lxbe.BotExports.fromLexV1Export(lexExport));
+
+        expect(source).toContain('export const IntentNames = {\n  OrderFlowers: "OrderFlowers",\n} as const;');
+        expect(source).toContain(
+            'export const OrderFlowersSlots = {\n  FlowerType: "FlowerType",\n  PickupDate: "PickupDate",\n' +
+            '  Note: "Note",\n} as const;\n' +
+            'export type OrderFlowersSlot = typeof OrderFlowersSlots[keyof typeof OrderFlowersSlots];',
+        );
+    });
+
+    test('test case: set membership evaluators are created for slots of custom types', async () => {
+        const bot = lxbe.BotExports.fromLexV1Export(lexExport);
+        const evaluators = lxbe.BotExports.createSetMembershipEvaluators(bot, 'OrderFlowers', {
+            caseInsensitive: true,
+        });
+
+        expect(evaluators.map((se) => se.slotName)).toEqual(['FlowerType']);
+
+        const handler = new lxd.DefaultDialogEventHandler({ slotEvaluatorArray: evaluators });
+        const synonym = new lxev.LexEventBuilder('OrderFlowers').slot('FlowerType', 'Red Flowers').build();
+        expect(await evaluators[0].evaluate(synonym)).toMatchObject({
+            valid: lxd.SlotValidationAssessment.VALID_SLOT,
+            newSlots: { FlowerType: 'roses' },
+        });
+
+        const invalid = new lxev.LexEventBuilder('OrderFlowers').slot('FlowerType', 'cactus').build();
+        const dialogAction = (await handler.handle(invalid)).dialogAction as LexDialogActionElicitSlot;
+        expect(dialogAction.slotToElicit).toEqual('FlowerType');
+        expect(dialogAction.message.content).toEqual('What type of flowers would you like?');
+
+        expect(() => lxbe.BotExports.createSetMembershipEvaluators(bot, 'BookHotel')).toThrow('BookHotel');
+        expect(() => lxbe.BotExports.createSetMembershipEvaluators(bot, 'BookHotel')).toThrow(lxe.LexHookError);
+    });
+
+    test('test case: drift between a dialog config and the bot is reported', async () => {
+        const bot = lxbe.BotExports.fromLexV1Export(lexExport);
+        const config: lxd.DialogEventHandlerConfig = {
+            slotEvaluatorArray: [
+                new lxd.SetMembershipSlotEvaluator('FlowerType', 'What type?', new Set(['roses'])),
+                new lxd.SetMembershipSlotEvaluator('FlowerColour', 'What colour?', new Set(['red'])),
+            ],
+            slotRules: { Vase: { dependsOn: ['FlowerType'] } },
+        };
+
+        expect(lxbe.BotExports.detectDrift(bot, 'OrderFlowers', config)).toEqual([
+            'SlotEvaluator for FlowerColour, which the intent does not have',
+            'SlotRule for Vase, which the intent does not have',
+        ]);
+        expect(lxbe.BotExports.detectDrift(bot, 'OrderFlowers', config.slotEvaluatorArray.slice(0, 1))).toEqual([]);
+        expect(lxbe.BotExports.detectDrift(bot, 'BookHotel', config)).toEqual([
+            'intent BookHotel is not defined by bot OrderFlowersBot',
+        ]);
+    });
+});
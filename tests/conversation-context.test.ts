@@ -0,0 +1,72 @@
+import { LexDialogActionConfirmIntent, LexDialogActionElicitSlot } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookContext as lxc,
+    LexHookEvents as lxev
+}  from '../src/index';
+
+
+describe('conversation context', () => {
+
+    test('test case: slot values are carried across intents', () => {
+        const lexEvent: lx.LexEvent = new lxev.LexEventBuilder('CancelOrder')
+            .slots({ orderNumber: null, reason: null, account: 'A1' })
+            .recentIntentSummary({
+                intentName: 'CheckOrder', slots: { order: '42', account: 'B2' }, fulfillmentState: 'Fulfilled'
+            })
+            .build();
+        const context = new lxc.ConversationContext(lexEvent);
+
+        expect(context.carrySlots('CheckOrder', { orderNumber: 'order', reason: 'reason', account: 'account' }))
+            .toEqual([ 'orderNumber' ]);
+        expect(lexEvent.currentIntent.slots).toEqual({ orderNumber: '42', reason: null, account: 'A1' });
+        expect(context.findSlotValue('account')).toBe('B2');
+        expect(context.returnToPrevious()).toBeUndefined();
+    });
+
+    test('test case: return to the previous intent after a digression', () => {
+        const lexEvent: lx.LexEvent = new lxev.LexEventBuilder('StoreHours')
+            .recentIntentSummary({ intentName: 'StoreHours', dialogActionType: 'Close', fulfillmentState: 'Fulfilled' })
+            .recentIntentSummary({ intentName: 'OrderFlowers', slots: { FlowerType: 'roses', PickupDate: null },
+                dialogActionType: 'ElicitSlot', slotToElicit: 'PickupDate' })
+            .build();
+
+        const r: lx.LexResult =
+            new lxc.ConversationContext(lexEvent).returnToPrevious('Now, when would you like them?');
+
+        const da = r.dialogAction as LexDialogActionElicitSlot;
+        expect(da.intentName).toBe('OrderFlowers');
+        expect(da.slotToElicit).toBe('PickupDate');
+        expect(da.slots).toEqual({ FlowerType: 'roses', PickupDate: null });
+        expect(da.message.content).toBe('Now, when would you like them?');
+        expect(r.recentIntentSummaryView).toBeUndefined();
+    });
+
+    test('test case: checkpoint and resume an interrupted intent', () => {
+        const lexEvent: lx.LexEvent = new lxev.LexEventBuilder('BookTrip')
+            .slots({ destination: 'Paris', date: null })
+            .recentIntentSummary({ dialogActionType: 'ElicitSlot', slotToElicit: 'date' })
+            .build();
+        const context = new lxc.ConversationContext(lexEvent);
+
+        context.checkpoint('booking');
+        const saved: lx.LexResult = context.writeBack(lx.LexResultFactory.dialogActionElicitIntent({}));
+        expect(saved.recentIntentSummaryView[0]).toMatchObject({
+            intentName: 'BookTrip', checkpointLabel: 'booking', slotToElicit: 'date', slots: { destination: 'Paris' }
+        });
+
+        //
+        // later, in another intent
+        const later = new lxev.LexEventBuilder('CheckWeather').build();
+        later.recentIntentSummaryView = saved.recentIntentSummaryView;
+        const resumed: lx.LexResult = new lxc.ConversationContext(later).resumeCheckpoint('booking');
+
+        expect((resumed.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('date');
+        expect(resumed.recentIntentSummaryView.some((is) => is.checkpointLabel === 'booking')).toBe(false);
+
+        const confirm: lx.LexResult =
+            new lxc.ConversationContext(later).resume({ ...saved.recentIntentSummaryView[0], slotToElicit: null });
+        expect((confirm.dialogAction as LexDialogActionConfirmIntent).intentName).toBe('BookTrip');
+    });
+
+})
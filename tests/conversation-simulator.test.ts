@@ -0,0 +1,149 @@
+import {
+    LexHook as lx,
+    LexHookBot as lxb,
+    LexHookDialog as lxd,
+    LexHookTesting as lxt
+}  from '../src/index';
+
+
+const bot: lxb.BotDefinition = {
+    name: 'OrderFlowersBot',
+    intents: [
+        {
+            name: 'OrderFlowers',
+            slots: [
+                { name: 'FlowerType', slotType: 'FlowerTypes', prompt: 'What type of flowers?' },
+                { name: 'PickupDate', slotType: 'AMAZON.DATE', prompt: 'What day?' }
+            ],
+            confirmationPrompt: 'Shall I order them?'
+        }
+    ],
+    slotTypes: [
+        {
+            name: 'FlowerTypes',
+            values: [ { value: 'roses', synonyms: [ 'rose' ] }, { value: 'tulips' } ]
+        }
+    ]
+};
+
+const lexEventHandler: lx.LexEventHandler = {
+
+    dialog: new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.SetMembershipSlotEvaluator('FlowerType', 'We have roses or tulips. Which would you like?',
+                new Set([ 'roses', 'tulips' ]))
+        ],
+        allSlotsValidHook: (lexEvent) => {
+            lexEvent.sessionAttributes['validated'] = 'true';
+        }
+    }),
+
+    fulfill: {
+        handle: (lexEvent: lx.LexEvent): Promise<lx.LexResult> => {
+            return Promise.resolve(lx.LexResultFactory.dialogActionClose({
+                fulfillmentState: 'Fulfilled',
+                message: {
+                    contentType: 'PlainText',
+                    content: `Your ${lexEvent.currentIntent.slots['FlowerType']} will be ready`
+                },
+                sessionAttributes: lexEvent.sessionAttributes
+            }));
+        }
+    }
+
+};
+
+
+describe('conversation simulator', () => {
+
+    test('test case: multi-turn order', async () => {
+        const sim = new lxt.ConversationSimulator({ bot, handler: lexEventHandler });
+
+        let turn = await sim.say('i would like to order some flowers', { intent: 'OrderFlowers' });
+        expect(turn.dialogActionType).toBe('ElicitSlot');
+        expect(turn.slotToElicit).toBe('FlowerType');
+        expect(turn.message).toBe('We have roses or tulips. Which would you like?');
+
+        turn = await sim.say('daisies');
+        expect(turn.slotToElicit).toBe('FlowerType');
+
+        turn = await sim.say('Rose');
+        expect(turn.steps.map((s) => s.source)).toEqual([ 'DialogCodeHook', 'Lex' ]);
+        expect(turn.slotToElicit).toBe('PickupDate');
+        expect(turn.message).toBe('What day?');
+        expect(sim.getSlots()['FlowerType']).toBe('roses');
+
+        turn = await sim.say('2030-02-14');
+        expect(turn.dialogActionType).toBe('ConfirmIntent');
+        expect(sim.getSessionAttributes()).toEqual({ validated: 'true' });
+
+        turn = await sim.say('yes');
+        expect(turn.steps.map((s) => s.source)).toEqual([ 'DialogCodeHook', 'FulfillmentCodeHook' ]);
+        expect(turn.steps[1].event.recentIntentSummaryView[0].dialogActionType).toBe('ConfirmIntent');
+        expect(turn.dialogActionType).toBe('Close');
+        expect(turn.message).toBe('Your roses will be ready');
+        expect(sim.getActiveIntentName()).toBeNull();
+    });
+
+    test('test case: scripted turns with slot values', async () => {
+        const sim = new lxt.ConversationSimulator({ bot, handler: lexEventHandler });
+
+        const turns = await sim.play([
+            { utterance: 'tulips for tomorrow', intent: 'OrderFlowers',
+                slots: { FlowerType: 'tulips', PickupDate: '2030-01-01' } },
+            { utterance: 'no' }
+        ]);
+
+        expect(turns[0].dialogActionType).toBe('ConfirmIntent');
+        expect(turns[1].dialogActionType).toBe('Close');
+        expect(turns[1].steps[0].event.currentIntent.confirmationStatus).toBe('Denied');
+    });
+
+    test('test case: switching intents while a slot is elicited', async () => {
+        const delegating: lx.LexEventHandler = {
+            dialog: {
+                handle: (lexEvent: lx.LexEvent): Promise<lx.LexResult> =>
+                    Promise.resolve(lx.LexResultFactory.dialogActionDelegate({ slots: lexEvent.currentIntent.slots }))
+            },
+            fulfill: lexEventHandler.fulfill
+        };
+        const checkOrder: lxb.IntentDefinition = {
+            name: 'CheckOrder',
+            slots: [ { name: 'OrderNumber', slotType: 'AMAZON.NUMBER', prompt: 'What is the order number?' } ]
+        };
+        const sim = new lxt.ConversationSimulator({
+            bot: { ...bot, intents: [ ...bot.intents, checkOrder ] },
+            handler: delegating
+        });
+
+        let turn = await sim.say('i would like to order some flowers', { intent: 'OrderFlowers' });
+        expect(turn.slotToElicit).toBe('FlowerType');
+
+        turn = await sim.say('where is my order', { intent: 'CheckOrder' });
+        expect(turn.slotToElicit).toBe('OrderNumber');
+        expect(sim.getSlots()).toEqual({ OrderNumber: null });
+    });
+
+    test('test case: a result without session attributes keeps the session', async () => {
+        const received: { [key: string]: string }[] = [];
+        const handler = (lexEvent: lx.LexEvent): Promise<lx.LexResult> => {
+            received.push({ ...lexEvent.sessionAttributes });
+            return Promise.resolve(lx.LexResultFactory.dialogActionElicitSlot({
+                intentName: 'OrderFlowers',
+                slots: lexEvent.currentIntent.slots,
+                slotToElicit: 'FlowerType',
+                sessionAttributes: received.length === 1 ? { greeted: 'true' } : undefined
+            }));
+        };
+        const sim = new lxt.ConversationSimulator({ bot, handler });
+
+        await sim.play([
+            { utterance: 'i would like to order some flowers', intent: 'OrderFlowers' },
+            { utterance: 'daisies' },
+            { utterance: 'lilies' }
+        ]);
+        expect(received).toEqual([ {}, { greeted: 'true' }, { greeted: 'true' } ]);
+        expect(sim.getSessionAttributes()).toEqual({ greeted: 'true' });
+    });
+
+})
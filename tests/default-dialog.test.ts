@@ -0,0 +1,441 @@
+import {
+    LexDialogActionClose,
+    LexDialogActionConfirmIntent,
+    LexDialogActionDelegate,
+    LexDialogActionElicitSlot
+} from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookErrors as lxe,
+    LexHookLogging as lxl,
+    LexHookMessages as lxm
+}  from '../src/index';
+
+
+const testLexEvent = (slots: { [name: string]: string | null }): lx.LexEvent => {
+    const slotDetails: lx.LexEvent['currentIntent']['slotDetails'] = {};
+    Object.keys(slots).forEach((slotName) => {
+        slotDetails[slotName] = { resolutions: [], originalValue: slots[slotName] };
+    });
+    return {
+        currentIntent: {
+            name: 'test',
+            slots,
+            slotDetails,
+            confirmationStatus: 'None'
+        },
+        bot: {
+            name: 'TestBot',
+            alias: '$LATEST',
+            version: '$LATEST'
+        },
+        userId: '123',
+        inputTranscript: 'i want to ride the zamboni',
+        invocationSource: 'DialogCodeHook',
+        outputDialogMode: 'Text',
+        messageVersion: '1.0',
+        sessionAttributes: {},
+        requestAttributes: null,
+        recentIntentSummaryView: null,
+        sentimentResponse: null,
+        kendraResponse: null
+    };
+};
+
+const delay = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms));
+
+
+describe('default dialog: asynchronous evaluation', () => {
+
+    test('test case: evaluators are awaited in slot order', async () => {
+        const evaluated: string[] = [];
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [
+                new lxd.LookupSlotEvaluator('first', 'first?', async () => { await delay(20); return true; }),
+                new lxd.LookupSlotEvaluator('second', 'second?', async () => false)
+            ],
+            slotEvaluationHook: async (lexEvent, slotEvaluator) => {
+                await delay(5);
+                evaluated.push(slotEvaluator.slotName);
+            }
+        });
+
+        const r: lx.LexResult = await handler.handle(testLexEvent({ first: 'a', second: 'b' }));
+        expect(evaluated).toEqual([ 'first', 'second' ]);
+        expect((r.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('second');
+    });
+
+    test('test case: evaluator timeout is handled by the error responder', async () => {
+        let error: lxe.SlotEvaluationError;
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [
+                new lxd.LookupSlotEvaluator('first', 'first?', async () => { await delay(50); return true; }, 10)
+            ],
+            slotEvaluationErrorResponder: (lexEvent, slotEvaluator, e) => {
+                error = e;
+                return lx.LexResultFactory.dialogActionClose({ fulfillmentState: 'Failed' });
+            }
+        });
+
+        const r: lx.LexResult = await handler.handle(testLexEvent({ first: 'a' }));
+        expect(r.dialogAction.type).toBe('Close');
+        expect(error.timedOut).toBe(true);
+        expect(error.slotName).toBe('first');
+    });
+
+    test('test case: rejected lookup without error responder fails the conversation', async () => {
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [
+                new lxd.LookupSlotEvaluator('first', 'first?', () => Promise.reject(new Error('unavailable')))
+            ]
+        });
+
+        await expect(handler.handle(testLexEvent({ first: 'a' }))).rejects.toBeInstanceOf(lxe.SlotEvaluationError);
+
+        const r: lx.LexResult =
+            await lx.route(testLexEvent({ first: 'a' }), null, { dialog: handler, fulfill: handler });
+        expect(r.dialogAction.type).toBe('Close');
+    });
+
+})
+
+
+describe('default dialog: confirmation', () => {
+
+    const handler = new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.NotNullSlotEvaluator('first', 'first?')
+        ],
+        confirmation: {
+            promptMessage: 'are you sure?',
+            deniedResponder: lxd.ConfirmationResponders.reElicitSlot('first', 'what instead?')
+        }
+    });
+
+    const confirmationEvent = (confirmationStatus: 'None' | 'Confirmed' | 'Denied'): lx.LexEvent => {
+        const lexEvent = testLexEvent({ first: 'a' });
+        lexEvent.currentIntent.confirmationStatus = confirmationStatus;
+        return lexEvent;
+    };
+
+    test('test case: asks for confirmation once all slots are valid', async () => {
+        const r: lx.LexResult = await handler.handle(confirmationEvent('None'));
+        expect(r.dialogAction.type).toBe('ConfirmIntent');
+        expect((r.dialogAction as LexDialogActionConfirmIntent).message.content).toBe('are you sure?');
+    });
+
+    test('test case: delegates when confirmed', async () => {
+        const r: lx.LexResult = await handler.handle(confirmationEvent('Confirmed'));
+        expect(r.dialogAction.type).toBe('Delegate');
+    });
+
+    test('test case: re-elicits when denied', async () => {
+        const r: lx.LexResult = await handler.handle(confirmationEvent('Denied'));
+        expect((r.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('first');
+        expect((r.dialogAction as LexDialogActionElicitSlot).slots['first']).toBeNull();
+    });
+
+})
+
+
+describe('default dialog: response cards', () => {
+
+    test('test case: set members are offered as buttons when re-eliciting', async () => {
+        const flowers = new Set([ 'roses', 'tulips', 'lilies', 'daisies', 'orchids', 'carnations' ]);
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [
+                new lxd.SetMembershipSlotEvaluator('flower', 'which flower?', flowers, true)
+            ]
+        });
+
+        const r: lx.LexResult = await handler.handle(testLexEvent({ flower: 'weeds' }));
+        const card = (r.dialogAction as LexDialogActionElicitSlot).responseCard;
+        expect(card.genericAttachments.length).toBe(2);
+        expect(card.genericAttachments[0].title).toBe('which flower?');
+        expect(card.genericAttachments[0].buttons.length).toBe(5);
+        expect(card.genericAttachments[1].buttons[0]).toEqual({ text: 'carnations', value: 'carnations' });
+    });
+
+})
+
+
+describe('default dialog: localized prompts', () => {
+
+    const messageCatalog = new lxm.MessageCatalog({
+        defaultLocale: 'en-US',
+        messages: {
+            'en-US': { 'flower.prompt': 'Sorry {session.name}, we have no {value}. Which flower?' },
+            'es': { 'flower.prompt': [ 'Lo siento, no tenemos {value}.', 'No hay {value}.' ] }
+        },
+        random: () => 0.9
+    });
+
+    const handler = new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.SetMembershipSlotEvaluator('flower', 'flower.prompt', new Set([ 'roses' ]))
+        ],
+        messageCatalog
+    });
+
+    test('test case: prompt resolved in default locale with interpolation', async () => {
+        const lexEvent = testLexEvent({ flower: 'weeds' });
+        lexEvent.sessionAttributes = { name: 'Pat' };
+        const r: lx.LexResult = await handler.handle(lexEvent);
+        expect((r.dialogAction as LexDialogActionElicitSlot).message.content)
+            .toBe('Sorry Pat, we have no weeds. Which flower?');
+    });
+
+    test('test case: prompt resolved in locale from session attribute, falling back to language', async () => {
+        const lexEvent = testLexEvent({ flower: 'weeds' });
+        lexEvent.sessionAttributes = { locale: 'es-US' };
+        const r: lx.LexResult = await handler.handle(lexEvent);
+        expect((r.dialogAction as LexDialogActionElicitSlot).message.content).toBe('No hay weeds.');
+    });
+
+    test('test case: route error message resolved from catalog', async () => {
+        const failing: lx.EventHandler = { handle: () => Promise.reject(new Error('bug')) };
+        const errorCatalog = new lxm.MessageCatalog({
+            defaultLocale: 'en-US',
+            messages: { 'fr-CA': { [lxm.MessageKeys.ROUTE_ERROR]: 'Une erreur est survenue' } },
+            aliasLocales: { 'prod_fr': 'fr-CA' }
+        });
+        const lexEvent = testLexEvent({});
+        lexEvent.bot.alias = 'prod_fr';
+        const r: lx.LexResult = await lx.route(lexEvent, null, { dialog: failing, fulfill: failing }, {
+            messageCatalog: errorCatalog,
+            logger: new lxl.JsonLogger({ level: lxl.LogLevel.SILENT })
+        });
+        expect((r.dialogAction as LexDialogActionClose).message.content).toBe('Une erreur est survenue');
+    });
+
+})
+
+
+describe('default dialog: slot rules', () => {
+
+    const colors: { [flower: string]: Set<string> } = {
+        roses: new Set([ 'red', 'white' ]),
+        tulips: new Set([ 'yellow' ])
+    };
+
+    const handler = new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.LookupSlotEvaluator('color', 'Which color?',
+                async (value, lexEvent) => colors[lexEvent.currentIntent.slots.flower].has(value)),
+            new lxd.SetMembershipSlotEvaluator('flower', 'Which flower?', new Set(Object.keys(colors))),
+            new lxd.SetMembershipSlotEvaluator('method', 'Pickup or delivery?', new Set([ 'pickup', 'delivery' ])),
+            new lxd.NotNullSlotEvaluator('address', 'Where to?'),
+            new lxd.NotNullSlotEvaluator('pickupTime', 'When will you collect them?'),
+            new lxd.NotNullSlotEvaluator('note', 'A note for the card?')
+        ],
+        slotRules: {
+            color: { dependsOn: [ 'flower' ] },
+            address: { requiredWhen: (lexEvent) => lexEvent.currentIntent.slots.method === 'delivery' },
+            pickupTime: { skipWhen: (lexEvent) => lexEvent.currentIntent.slots.method === 'delivery' },
+            note: { optional: true }
+        }
+    });
+
+    const elicited = async (slots: { [name: string]: string | null }): Promise<string> => {
+        const r: lx.LexResult = await handler.handle(testLexEvent(slots));
+        return r.dialogAction.type === 'ElicitSlot' ? (r.dialogAction as LexDialogActionElicitSlot).slotToElicit : null;
+    };
+
+    test('test case: dependencies are evaluated first', async () => {
+        expect(await elicited({ color: 'yellow', flower: null })).toBe('flower');
+        expect(await elicited({ color: 'yellow', flower: 'roses' })).toBe('color');
+    });
+
+    test('test case: conditional, skipped and optional slots', async () => {
+        const slots = {
+            flower: 'roses', color: 'red', method: 'delivery', address: null, pickupTime: null, note: null
+        };
+        expect(await elicited(slots)).toBe('address');
+        expect(await elicited({ ...slots, address: '1 Main St', pickupTime: 'noon' })).toBeNull();
+        expect(await elicited({ ...slots, method: 'pickup' })).toBe('pickupTime');
+        expect(await elicited({ ...slots, method: 'pickup', pickupTime: 'noon' })).toBeNull();
+    });
+
+    test('test case: dependency cycles are detected at construction', () => {
+        expect(() => new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [ new lxd.NotNullSlotEvaluator('a', 'a?'), new lxd.NotNullSlotEvaluator('b', 'b?') ],
+            slotRules: { a: { dependsOn: [ 'b' ] }, b: { dependsOn: [ 'a' ] } }
+        })).toThrow(lxe.SlotDependencyCycleError);
+    });
+
+    test('test case: slots named like Object properties', async () => {
+        const named = new lxd.DefaultDialogEventHandler<string>({
+            slotEvaluatorArray: [
+                new lxd.NotNullSlotEvaluator('toString', 'toString?'),
+                new lxd.NotNullSlotEvaluator('constructor', 'constructor?')
+            ],
+            slotRules: { toString: { optional: true } }
+        });
+        const r: lx.LexResult = await named.handle(testLexEvent({ toString: null, constructor: null }));
+        expect((r.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('constructor');
+    });
+
+})
+
+
+describe('default dialog: intent validators', () => {
+
+    const handler = new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.LexDateSlotEvaluator('pickupDate', 'When will you pick up the car?'),
+            new lxd.LexDateSlotEvaluator('returnDate', 'When will you return the car?')
+        ],
+        intentValidators: [
+            (lexEvent) => lexEvent.currentIntent.slots.returnDate > lexEvent.currentIntent.slots.pickupDate
+                ? undefined
+                : { slotName: 'returnDate', message: 'Please choose a return date after pickup' }
+        ]
+    });
+
+    test('test case: failure re-elicits the named slot with its message', async () => {
+        const r: lx.LexResult =
+            await handler.handle(testLexEvent({ pickupDate: '2030-05-10', returnDate: '2030-05-01' }));
+
+        const da = r.dialogAction as LexDialogActionElicitSlot;
+        expect(da.slotToElicit).toBe('returnDate');
+        expect(da.slots.returnDate).toBeNull();
+        expect(da.message.content).toBe('Please choose a return date after pickup');
+    });
+
+    test('test case: valid combination delegates', async () => {
+        const r: lx.LexResult =
+            await handler.handle(testLexEvent({ pickupDate: '2030-05-01', returnDate: '2030-05-10' }));
+        expect(r.dialogAction.type).toBe('Delegate');
+    });
+
+})
+
+
+describe('default dialog: resolutions and fuzzy matching', () => {
+
+    const flowers = new Set([ 'roses', 'tulips', 'lilies' ]);
+
+    test('test case: resolution replaces an invalid slot value', async () => {
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [ new lxd.SetMembershipSlotEvaluator('flower', 'Which flower?', flowers) ]
+        });
+        const lexEvent = testLexEvent({ flower: 'lily' });
+        lexEvent.currentIntent.slotDetails.flower = { originalValue: 'lily', resolutions: [ { value: 'lilies' } ] };
+
+        const r: lx.LexResult = await handler.handle(lexEvent);
+        expect(r.dialogAction.type).toBe('Delegate');
+        expect((r.dialogAction as LexDialogActionDelegate).slots).toEqual({ flower: 'lilies' });
+    });
+
+    test('test case: case-insensitive, edit distance and synonym matching', async () => {
+        const evaluator = new lxd.SetMembershipSlotEvaluator('flower', 'Which flower?', flowers, false, {
+            caseInsensitive: true,
+            maxEditDistance: 1,
+            synonyms: { tulipa: 'tulips' }
+        });
+
+        const resolved = async (value: string): Promise<string> => {
+            const se = await evaluator.evaluate(testLexEvent({ flower: value }));
+            return se.valid === lxd.SlotValidationAssessment.INVALID ? null : (se.newSlots || {}).flower ?? value;
+        };
+
+        expect(await resolved('roses')).toBe('roses');
+        expect(await resolved('Rose')).toBe('roses');
+        expect(await resolved('LILIES')).toBe('lilies');
+        expect(await resolved('Tulipa')).toBe('tulips');
+        expect(await resolved('daisies')).toBeNull();
+        expect(lx.Util.editDistance('kitten', 'sitting')).toBe(3);
+    });
+
+})
+
+
+describe('default dialog: retry policy', () => {
+
+    const handler = new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [ new lxd.SetMembershipSlotEvaluator('flower', 'Which flower?', new Set([ 'roses' ])) ],
+        retryPolicy: {
+            maxAttempts: 3,
+            escalatingPrompts: [ 'We only sell roses. Which flower?' ],
+            maxAttemptsResponder: lxd.MaxAttemptsResponders.handoff('Let me transfer you to an agent.')
+        }
+    });
+
+    /**
+     * Answers with each value in turn, carrying session attributes between turns
+     */
+    const answer = async (...values: string[]): Promise<lx.LexResult[]> => {
+        const results: lx.LexResult[] = [];
+        let sessionAttributes = {};
+        for (const value of values) {
+            const lexEvent = testLexEvent({ flower: value });
+            lexEvent.sessionAttributes = { ...sessionAttributes };
+            const r: lx.LexResult = await handler.handle(lexEvent);
+            sessionAttributes = r.sessionAttributes;
+            results.push(r);
+        }
+        return results;
+    };
+
+    const content = (r: lx.LexResult): string => (r.dialogAction as LexDialogActionElicitSlot).message.content;
+
+    test('test case: prompts escalate, then the max attempts responder is used', async () => {
+        const [ first, second, third ] = await answer(null, 'weeds', 'daisies', 'tulips');
+
+        expect(content(first)).toBe('Which flower?');
+        expect(content(second)).toBe('Which flower?');
+        expect(content(third)).toBe('We only sell roses. Which flower?');
+        expect(third.sessionAttributes).toEqual({ 'lexhook.attempts.test.flower': '2' });
+
+        const [ , , , fourth ] = await answer(null, 'weeds', 'daisies', 'tulips');
+        expect(fourth.dialogAction.type).toBe('Close');
+        expect(fourth.sessionAttributes).toEqual({ handoff: 'true' });
+    });
+
+    test('test case: attempts are reset once the intent is valid', async () => {
+        const results = await answer('weeds', 'roses');
+        expect(results[0].sessionAttributes).toEqual({ 'lexhook.attempts.test.flower': '1' });
+        expect(results[1].dialogAction.type).toBe('Delegate');
+        expect(results[1].sessionAttributes).toEqual({});
+    });
+
+})
+
+describe('default dialog: typed slots', () => {
+    type OrderFlowersSlot = 'FlowerType' | 'PickupDate';
+    type Config = lxd.DialogEventHandlerConfig<OrderFlowersSlot>;
+    type Assignable<A, B> = A extends B ? true : false;
+
+    test('test case: slot names are checked at compile time', async () => {
+        const config: Config = {
+            slotEvaluatorArray: [
+                new lxd.SetMembershipSlotEvaluator('FlowerType', 'Which flower?', new Set(['roses'])),
+                new lxd.LexDateSlotEvaluator('PickupDate', 'Which day?'),
+            ],
+            slotRules: { PickupDate: { dependsOn: ['FlowerType'] } },
+            intentValidators: [
+                (lexEvent) =>
+                    lexEvent.currentIntent.slots.FlowerType === 'roses' ? undefined : { slotName: 'FlowerType' },
+            ],
+        };
+        const unknownEvaluator: Assignable<lxd.NotNullSlotEvaluator<'FlowerColour'>, Config['slotEvaluatorArray'][0]> =
+            false;
+        const unknownRule: Assignable<{ Vase: lxd.SlotRule }, Config['slotRules']> = false;
+        const unknownSlot: Assignable<'FlowerColour', keyof lx.Slots<OrderFlowersSlot>> = false;
+        expect([unknownEvaluator, unknownRule, unknownSlot]).toEqual([false, false, false]);
+
+        const handler = new lxd.DefaultDialogEventHandler(config);
+        const lexEvent = testLexEvent({ FlowerType: 'roses', PickupDate: null }) as lx.LexEvent<OrderFlowersSlot>;
+        const r = await handler.handle(lexEvent);
+        expect((r.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('PickupDate');
+
+        const elicit = lx.LexResultFactory.dialogActionElicitSlot({
+            intentName: 'OrderFlowers',
+            slotToElicit: 'FlowerType',
+            slots: lexEvent.currentIntent.slots,
+        });
+        expect((elicit.dialogAction as LexDialogActionElicitSlot).slotToElicit).toBe('FlowerType');
+    });
+
+})
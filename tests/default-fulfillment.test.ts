@@ -0,0 +1,75 @@
+import { LexDialogActionClose, LexDialogActionElicitIntent } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookErrors as lxe,
+    LexHookEvents as lxev,
+    LexHookFulfillment as lxf
+}  from '../src/index';
+
+
+const slotParsers = {
+    FlowerType: lxf.SlotParsers.string,
+    PickupDate: lxf.SlotParsers.date,
+    Quantity: lxf.SlotParsers.integer,
+    Budget: lxf.SlotParsers.optional(lxf.SlotParsers.currency)
+};
+
+const order = (slots: { [name: string]: string }): lx.LexEvent =>
+    new lxev.LexEventBuilder('OrderFlowers').fulfillment().slots(slots).build();
+
+
+describe('default fulfillment', () => {
+
+    test('test case: slots are parsed into a typed payload', async () => {
+        let received: lxf.FulfillmentPayload<typeof slotParsers>;
+        const handler = new lxf.DefaultFulfillmentEventHandler({
+            slotParsers,
+            fulfill: (payload) => {
+                received = payload;
+                return { status: 'success', vars: { orderId: '123' } };
+            },
+            messages: { success: 'Your {slots.FlowerType} are ordered, reference {orderId}.' }
+        });
+
+        const r: lx.LexResult = await handler.handle(
+            order({ FlowerType: 'roses', PickupDate: '2030-05-01', Quantity: '12', Budget: '$1,250.00' }));
+
+        expect(received).toEqual({
+            FlowerType: 'roses', PickupDate: new Date(2030, 4, 1), Quantity: 12, Budget: 1250
+        });
+        const da = r.dialogAction as LexDialogActionClose;
+        expect(da.fulfillmentState).toBe('Fulfilled');
+        expect(da.message.content).toBe('Your roses are ordered, reference 123.');
+    });
+
+    test('test case: outcomes map to close messages, with an optional follow up', async () => {
+        const respond = async (outcome: lxf.FulfillmentOutcome, followUp?: string): Promise<lx.LexResult> =>
+            new lxf.DefaultFulfillmentEventHandler({ slotParsers: {}, fulfill: () => outcome, followUp })
+                .handle(order({}));
+
+        const failed = (await respond({ status: 'failure' })).dialogAction as LexDialogActionClose;
+        expect(failed.fulfillmentState).toBe('Failed');
+        expect(failed.message.content).toBe('Sorry, your request could not be completed.');
+
+        const partial = await respond(
+            { status: 'partial', sessionAttributes: { backorder: 'true' } }, 'Anything else?');
+        expect((partial.dialogAction as LexDialogActionElicitIntent).message.content)
+            .toBe('Your request has been partly completed. Anything else?');
+        expect(partial.sessionAttributes).toEqual({ backorder: 'true' });
+
+        const failedWithFollowUp = await respond({ status: 'failure', message: 'Out of stock.' }, 'Anything else?');
+        expect(failedWithFollowUp.dialogAction.type).toBe('Close');
+    });
+
+    test('test case: unparseable slot values', async () => {
+        const handler = new lxf.DefaultFulfillmentEventHandler({
+            slotParsers,
+            fulfill: () => ({ status: 'success' })
+        });
+        const lexEvent = order({ FlowerType: 'roses', PickupDate: '2030-05-01', Quantity: 'a dozen' });
+
+        await expect(handler.handle(lexEvent)).rejects.toThrow(lxe.SlotParseError);
+        expect(() => handler.parsePayload(lexEvent)).toThrow('slot Quantity value "a dozen" is not a number');
+    });
+
+})
@@ -0,0 +1,188 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { PassThrough } from 'stream';
+import {
+    LexHook as lx,
+    LexHookBot as lxb,
+    LexHookDialog as lxd,
+    LexHookEmulator as lxem,
+    LexHookLogging as lxl
+}  from '../src/index';
+
+
+const bot: lxb.BotDefinition = {
+    name: 'OrderFlowersBot',
+    intents: [
+        {
+            name: 'OrderFlowers',
+            slots: [
+                { name: 'FlowerType', slotType: 'FlowerTypes', prompt: 'What type of flowers?' },
+                { name: 'PickupDate', slotType: 'AMAZON.DATE', prompt: 'What day?' }
+            ],
+            sampleUtterances: [ 'I would like to order some flowers', 'I want {FlowerType}', '{FlowerType}' ],
+        },
+        {
+            name: 'CheckOrder',
+            slots: [ { name: 'OrderNumber', slotType: 'AMAZON.NUMBER', prompt: 'What is the order number?' } ],
+            sampleUtterances: [ 'Where is my order', 'Check order {OrderNumber}' ],
+        }
+    ],
+    slotTypes: [
+        {
+            name: 'FlowerTypes',
+            values: [ { value: 'roses', synonyms: [ 'red roses' ] }, { value: 'tulips' } ]
+        }
+    ]
+};
+
+const lexEventHandler: lx.LexEventHandler = {
+    dialog: new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.SetMembershipSlotEvaluator('FlowerType', 'We have roses or tulips.', new Set([ 'roses', 'tulips' ]),
+                true),
+            new lxd.LexDateSlotEvaluator('PickupDate', 'What day?'),
+        ],
+    }),
+    fulfill: {
+        handle: async (lexEvent) => lx.LexResultFactory.dialogActionClose({
+            fulfillmentState: 'Fulfilled',
+            message: {
+                contentType: 'PlainText',
+                content: `Your ${lexEvent.currentIntent.slots.FlowerType} are ordered.`,
+            },
+            sessionAttributes: lexEvent.sessionAttributes,
+        }),
+    },
+};
+
+const createEmulator = (): lxem.LexEmulator => new lxem.LexEmulator({
+    bot,
+    handler: lexEventHandler,
+    routeOptions: { logger: new lxl.JsonLogger({ level: lxl.LogLevel.SILENT }) },
+});
+
+
+describe('emulator: keyword nlu', () => {
+    const nlu = new lxem.KeywordNlu(bot);
+
+    test('test case: sample utterances, with slot placeholders, and keywords', async () => {
+        expect(nlu.interpret('I would like to order some flowers.')).toEqual({ intent: 'OrderFlowers', slots: {} });
+        expect(nlu.interpret('i want Red Roses')).toEqual({ intent: 'OrderFlowers', slots: { FlowerType: 'roses' } });
+        expect(nlu.interpret('check order 1234')).toEqual({ intent: 'CheckOrder', slots: { OrderNumber: '1234' } });
+        expect(nlu.interpret('order flowers, tulips please')).toEqual({
+            intent: 'OrderFlowers',
+            slots: { FlowerType: 'tulips' },
+        });
+        expect(nlu.interpret('where is it?')).toEqual({ intent: 'CheckOrder', slots: {} });
+        expect(nlu.interpret('hello')).toEqual({ slots: {} });
+    });
+
+    test('test case: an active intent is only switched by a pattern', async () => {
+        expect(nlu.interpret('the order was tulips', 'OrderFlowers')).toEqual({ slots: { FlowerType: 'tulips' } });
+        expect(nlu.interpret('Where is my order', 'OrderFlowers')).toEqual({ intent: 'CheckOrder', slots: {} });
+        expect(nlu.interpret('1234', 'CheckOrder')).toEqual({ slots: {} });
+        expect(nlu.interpret('tulips', 'OrderFlowers')).toEqual({ slots: { FlowerType: 'tulips' } });
+
+        const configured = new lxem.KeywordNlu(bot, { patterns: { CheckOrder: [ /^status (?<OrderNumber>\d+)$/ ] } });
+        expect(configured.interpret('status 42')).toEqual({ intent: 'CheckOrder', slots: { OrderNumber: '42' } });
+    });
+});
+
+describe('emulator: conversation', () => {
+    test('test case: chat through route to the handler', async () => {
+        const emulator = createEmulator();
+
+        const clarify = await emulator.send('hello');
+        expect(lxem.LexEmulator.formatTurn(clarify)).toBe('[ElicitIntent] Sorry, can you please repeat that?');
+
+        const first = await emulator.send('I want daisies');
+        expect(lxem.LexEmulator.formatTurn(first)).toBe(
+            '[ElicitSlot: FlowerType] We have roses or tulips.\n  We have roses or tulips. (roses | tulips)',
+        );
+
+        const second = await emulator.send('red roses');
+        expect(lxem.LexEmulator.formatTurn(second)).toBe('[ElicitSlot: PickupDate] What day?');
+        const last = await emulator.send('2030-01-01');
+        expect(lxem.LexEmulator.formatTurn(last)).toBe('[Close: Fulfilled] Your roses are ordered.');
+        expect(last.steps.map((s) => s.source)).toEqual([ 'DialogCodeHook', 'FulfillmentCodeHook' ]);
+        expect(emulator.getSimulator().transcript).toHaveLength(4);
+
+        emulator.reset();
+        expect(emulator.getSimulator().transcript).toHaveLength(0);
+    });
+
+    test('test case: repl', async () => {
+        const input = new PassThrough();
+        const output = new PassThrough();
+        let written = '';
+        output.on('data', (chunk) => (written += chunk));
+
+        const done = lxem.startRepl(createEmulator(), { input, output, prompt: '' });
+        input.write('I want roses\n');
+        input.write('/session\n');
+        input.write('/reset\n');
+        input.write('/quit\n');
+        await done;
+
+        expect(written).toBe('[ElicitSlot: PickupDate] What day?\n{}\n[new conversation]\n');
+    });
+});
+
+describe('emulator: http server', () => {
+    let server: http.Server;
+    let port: number;
+
+    beforeAll(async () => {
+        server = lxem.createEmulatorServer(createEmulator);
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        port = (server.address() as AddressInfo).port;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    type Response = { status: number; body: Partial<lxem.EmulatorTextResponse> };
+
+    const request = (method: string, path: string, body?: string): Promise<Response> =>
+        new Promise((resolve, reject) => {
+            const req = http.request({ host: '127.0.0.1', port, method, path }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => (data += chunk));
+                res.on('end', () => resolve({ status: res.statusCode, body: JSON.parse(data) }));
+            });
+            req.on('error', reject);
+            req.end(body);
+        });
+
+    test('test case: post text, with a conversation per user', async () => {
+        const path = (userId: string): string => `/bot/OrderFlowersBot/alias/test/user/${userId}/text`;
+
+        const first = await request('POST', path('pat'), JSON.stringify({ inputText: 'I want roses' }));
+        expect(first).toEqual({
+            status: 200,
+            body: {
+                intentName: 'OrderFlowers',
+                slots: { FlowerType: 'roses', PickupDate: null },
+                sessionAttributes: {},
+                message: 'What day?',
+                dialogState: 'ElicitSlot',
+                slotToElicit: 'PickupDate',
+            },
+        });
+
+        const other = await request('POST', path('sam'), JSON.stringify({ inputText: '2030-01-01' }));
+        expect(other.body.dialogState).toBe('ElicitIntent');
+
+        const last = await request('POST', path('pat'), JSON.stringify({ inputText: '2030-01-01' }));
+        expect(last.body).toMatchObject({ intentName: 'OrderFlowers', dialogState: 'Fulfilled' });
+
+        expect((await request('DELETE', '/bot/OrderFlowersBot/alias/test/user/pat/session')).status).toBe(200);
+        expect((await request('POST', path('pat'), '{')).status).toBe(400);
+        expect((await request('POST', path('pat'), '{}')).body).toEqual({ message: 'inputText is required' });
+        expect((await request('GET', '/')).status).toBe(404);
+
+        const proto = await request('POST', path('__proto__'), JSON.stringify({ inputText: 'I want roses' }));
+        expect(proto).toMatchObject({ status: 200, body: { slotToElicit: 'PickupDate' } });
+    });
+});
@@ -0,0 +1,71 @@
+import { LexDialogActionClose, LexDialogActionElicitSlot } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookErrors as lxe,
+    LexHookErrorMapping as lxem,
+    LexHookEvents as lxev,
+    LexHookLogging as lxl
+}  from '../src/index';
+
+
+const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+
+const throwing = (error: Error): lx.LexEventHandler => {
+    const handler: lx.EventHandler = { handle: () => Promise.reject(error) };
+    return { dialog: handler, fulfill: handler };
+};
+
+const lexEvent = (): lx.LexEvent => new lxev.LexEventBuilder('OrderFlowers').slot('FlowerType', 'weeds').build();
+
+
+describe('error mapping', () => {
+
+    test('test case: retryable user input error re-elicits the slot', async () => {
+        const r: lx.LexResult = await lx.route(lexEvent(), null,
+            throwing(new lxe.RetryableUserInputError('no such flower', 'FlowerType', 'We do not sell weeds')),
+            { logger });
+
+        const da = r.dialogAction as LexDialogActionElicitSlot;
+        expect(da.type).toBe('ElicitSlot');
+        expect(da.slotToElicit).toBe('FlowerType');
+        expect(da.slots.FlowerType).toBeNull();
+        expect(da.message.content).toBe('We do not sell weeds');
+    });
+
+    test('test case: downstream unavailable and unexpected errors close the conversation', async () => {
+        const unavailable = await lx.route(lexEvent(), null,
+            throwing(new lxe.DownstreamUnavailableError('timeout', 'inventory')), { logger });
+        const unexpected = await lx.route(lexEvent(), null, throwing(new TypeError('bug')), { logger });
+
+        expect((unavailable.dialogAction as LexDialogActionClose).message.content).toMatch(/unavailable/);
+        expect((unexpected.dialogAction as LexDialogActionClose).message.content).toBe('Unexpected error occurred');
+    });
+
+    test('test case: configured mapper offers a handoff, falling back to the default mapping', async () => {
+        const errorMapper = lxem.ErrorMappers.handoff((e) => e instanceof lxe.DownstreamUnavailableError,
+            'SpeakToAgent', 'Would you like to speak to an agent?');
+
+        const handoff = await lx.route(lexEvent(), null,
+            throwing(new lxe.DownstreamUnavailableError('timeout')), { logger, errorMapper });
+        const other = await lx.route(lexEvent(), null, throwing(new Error('bug')), { logger, errorMapper });
+
+        expect(handoff.dialogAction.type).toBe('ConfirmIntent');
+        expect(other.dialogAction.type).toBe('Close');
+    });
+
+    test('test case: rethrow selected errors after logging them', async () => {
+        const lines: string[] = [];
+        const options: lx.RouteOptions = {
+            logger: new lxl.JsonLogger({ sink: (line) => lines.push(line) }),
+            rethrow: (e) => e instanceof lxe.FatalError
+        };
+
+        await expect(lx.route(lexEvent(), null, throwing(new lxe.FatalError('misconfigured')), options))
+            .rejects.toThrow('misconfigured');
+        expect(lines.map((line) => JSON.parse(line)).some((e) => e.level === 'ERROR')).toBe(true);
+
+        const r = await lx.route(lexEvent(), null, throwing(new Error('bug')), options);
+        expect(r.dialogAction.type).toBe('Close');
+    });
+
+})
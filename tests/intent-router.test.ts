@@ -0,0 +1,88 @@
+import { LexDialogActionClose } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookRouter as lxr
+}  from '../src/index';
+
+
+/**
+ * A fulfillment handler that closes with a message identifying which handler was used
+ */
+const closingHandler = (name: string): lx.LexEventHandler => {
+    const eh: lx.EventHandler = {
+        handle: (): Promise<lx.LexResult> => {
+            return Promise.resolve(lx.LexResultFactory.dialogActionClose({
+                fulfillmentState: 'Fulfilled',
+                message: { contentType: 'PlainText', content: name }
+            }));
+        }
+    };
+    return { dialog: eh, fulfill: eh };
+};
+
+const testLexEvent = (intentName: string): lx.LexEvent => {
+    return {
+        currentIntent: {
+            name: intentName,
+            slots: {},
+            slotDetails: {},
+            confirmationStatus: 'None'
+        },
+        bot: {
+            name: 'TestBot',
+            alias: '$LATEST',
+            version: '$LATEST'
+        },
+        userId: '123',
+        inputTranscript: 'hello',
+        invocationSource: 'FulfillmentCodeHook',
+        outputDialogMode: 'Text',
+        messageVersion: '1.0',
+        sessionAttributes: {},
+        requestAttributes: null,
+        recentIntentSummaryView: null,
+        sentimentResponse: null,
+        kendraResponse: null
+    };
+};
+
+
+describe('intent router', () => {
+
+    const router = new lxr.IntentRouter({
+        handlers: {
+            'OrderFlowers': closingHandler('flowers'),
+            'Order*': closingHandler('any order')
+        }
+    });
+
+    test('test case: exact intent name', async () => {
+        const r: lx.LexResult = await router.route(testLexEvent('OrderFlowers'), null);
+        expect((r.dialogAction as LexDialogActionClose).message.content).toBe('flowers');
+    });
+
+    test('test case: wildcard intent name', async () => {
+        const r: lx.LexResult = await router.route(testLexEvent('OrderPizza'), null);
+        expect((r.dialogAction as LexDialogActionClose).message.content).toBe('any order');
+    });
+
+    test('test case: unknown intent', async () => {
+        const r: lx.LexResult = await router.route(testLexEvent('CancelOrder'), null);
+        expect((r.dialogAction as LexDialogActionClose).fulfillmentState).toBe('Failed');
+    });
+
+    test('test case: fallback handler', async () => {
+        const r: lx.LexResult = await new lxr.IntentRouter({ fallbackHandler: closingHandler('fallback') })
+            .route(testLexEvent('CancelOrder'), null);
+        expect((r.dialogAction as LexDialogActionClose).message.content).toBe('fallback');
+    });
+
+    test('test case: intent names that are Object properties', async () => {
+        const fallback = new lxr.IntentRouter({ fallbackHandler: closingHandler('fallback') });
+        for (const intentName of [ 'constructor', 'toString', '__proto__' ]) {
+            const r: lx.LexResult = await fallback.route(testLexEvent(intentName), null);
+            expect((r.dialogAction as LexDialogActionClose).message.content).toBe('fallback');
+        }
+    });
+
+})
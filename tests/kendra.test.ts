@@ -0,0 +1,92 @@
+import { LexDialogActionClose } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookEvents as lxev,
+    LexHookKendra as lxk
+}  from '../src/index';
+
+
+const faq: lxk.KendraQueryResultItem = {
+    Id: 'faq-1',
+    Type: 'QUESTION_ANSWER',
+    AdditionalAttributes: [ {
+        Key: 'AnswerText',
+        ValueType: 'TEXT_WITH_HIGHLIGHTS_VALUE',
+        Value: { TextWithHighlightsValue: { Text: 'Roses last about a week in a vase.' } }
+    } ],
+    DocumentTitle: { Text: 'Flower care FAQ' },
+    DocumentURI: 'https://example.com/faq',
+    ScoreAttributes: { ScoreConfidence: 'MEDIUM' }
+};
+
+const answer: lxk.KendraQueryResultItem = {
+    Id: 'answer-1',
+    Type: 'ANSWER',
+    AdditionalAttributes: [ {
+        Key: 'AnswerText',
+        ValueType: 'TEXT_WITH_HIGHLIGHTS_VALUE',
+        Value: {
+            TextWithHighlightsValue: {
+                Text: 'Cut roses typically last seven days if the water is changed daily.',
+                Highlights: [ { BeginOffset: 25, EndOffset: 35, TopAnswer: true } ]
+            }
+        }
+    } ],
+    DocumentTitle: { Text: 'Caring for cut roses' },
+    DocumentURI: 'https://example.com/roses',
+    ScoreAttributes: { ScoreConfidence: 'HIGH' }
+};
+
+const document: lxk.KendraQueryResultItem = {
+    Id: 'doc-1',
+    Type: 'DOCUMENT',
+    DocumentExcerpt: { Text: '...roses prefer cool water...' },
+    DocumentTitle: { Text: 'Caring for cut roses' },
+    DocumentURI: 'https://example.com/roses',
+    ScoreAttributes: { ScoreConfidence: 'LOW' }
+};
+
+const lexEvent = (resultItems: lxk.KendraQueryResultItem[]): lx.LexEvent =>
+    new lxev.LexEventBuilder('KendraSearchIntent')
+        .fulfillment()
+        .kendraResponse({ QueryId: 'q-1', ResultItems: resultItems })
+        .build();
+
+
+describe('kendra fallback', () => {
+
+    test('test case: top answer is preferred, with source links in a response card', async () => {
+        const r: lx.LexResult = await new lxk.KendraFallbackEventHandler().handle(lexEvent([ document, faq, answer ]));
+
+        const da = r.dialogAction as LexDialogActionClose;
+        expect(da.fulfillmentState).toBe('Fulfilled');
+        expect(da.message.content).toBe('seven days');
+        expect(da.responseCard.genericAttachments.map((a) => a.attachmentLinkUrl))
+            .toEqual([ 'https://example.com/roses', 'https://example.com/faq' ]);
+    });
+
+    test('test case: confidence threshold and answer length', async () => {
+        const handler = new lxk.KendraFallbackEventHandler({
+            minConfidence: 'MEDIUM',
+            maxAnswerLength: 20,
+            maxSources: 0
+        });
+        const r: lx.LexResult = await handler.handle(lexEvent([ document, faq ]));
+
+        const da = r.dialogAction as LexDialogActionClose;
+        expect(da.message.content).toBe('Roses last about...');
+        expect(da.responseCard).toBeUndefined();
+    });
+
+    test('test case: no answer', async () => {
+        const handler = new lxk.KendraFallbackEventHandler({ minConfidence: 'VERY_HIGH' });
+        const noResults: lx.LexResult = await handler.handle(lexEvent([]));
+        const unconfident: lx.LexResult = await handler.handle(lexEvent([ answer ]));
+
+        expect((noResults.dialogAction as LexDialogActionClose).message.content)
+            .toBe('Sorry, I could not find an answer to that.');
+        expect((unconfident.dialogAction as LexDialogActionClose).message.content)
+            .toBe('Sorry, I could not find an answer to that.');
+    });
+
+})
@@ -0,0 +1,77 @@
+import { LexDialogActionClose } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookEvents as lxev,
+    LexHookLogging as lxl,
+    LexHookValidation as lxv
+}  from '../src/index';
+
+
+describe('lex event builder', () => {
+
+    test('test case: defaults and derived slot details', () => {
+        const lexEvent: lx.LexEvent = new lxev.LexEventBuilder('OrderFlowers')
+            .slot('FlowerType', 'roses')
+            .slot('PickupDate', null)
+            .slot('Color', 'red', { originalValue: 'crimson', resolutions: [ 'red' ] })
+            .sessionAttribute('name', 'Pat')
+            .fulfillment()
+            .build();
+
+        expect(lexEvent.currentIntent.name).toBe('OrderFlowers');
+        expect(lexEvent.invocationSource).toBe('FulfillmentCodeHook');
+        expect(lexEvent.currentIntent.slotDetails['FlowerType'])
+            .toEqual({ originalValue: 'roses', resolutions: [ { value: 'roses' } ] });
+        expect(lexEvent.currentIntent.slotDetails['PickupDate']).toEqual({ originalValue: null, resolutions: [] });
+        expect(lexEvent.currentIntent.slotDetails['Color'].originalValue).toBe('crimson');
+        expect(lexEvent.sessionAttributes).toEqual({ name: 'Pat' });
+        expect(lxv.validateLexEvent(lexEvent)).toEqual([]);
+    });
+
+    test('test case: recent intent summary and sentiment', () => {
+        const lexEvent: lx.LexEvent = new lxev.LexEventBuilder('CancelOrder')
+            .recentIntentSummary({ intentName: 'CheckOrder', slots: { orderNumber: '42' }, dialogActionType: 'Close' })
+            .sentiment('NEGATIVE', { Negative: 0.8, Neutral: 0.2 })
+            .build();
+
+        expect(lexEvent.recentIntentSummaryView[0].slots).toEqual({ orderNumber: '42' });
+        expect(lexEvent.sentimentResponse.SentimentScore)
+            .toEqual({ Mixed: 0, Positive: 0, Neutral: 0.2, Negative: 0.8 });
+    });
+
+})
+
+
+describe('lex event validation', () => {
+
+    test('test case: diagnostics', () => {
+        const lexEvent = new lxev.LexEventBuilder().slot('a', 'x').build();
+        lexEvent.currentIntent.slotDetails['b'] = { originalValue: 'y', resolutions: [] };
+        (lexEvent as { messageVersion: string }).messageVersion = '2.0';
+
+        expect(lxv.validateLexEvent(lexEvent)).toEqual([
+            'unknown messageVersion "2.0"',
+            'slotDetails.b does not match any slot'
+        ]);
+
+        delete lexEvent.currentIntent;
+        expect(lxv.validateLexEvent(lexEvent)).toContain('missing currentIntent');
+    });
+
+    test('test case: route rejects malformed events', async () => {
+        const lines: string[] = [];
+        const handler: lx.EventHandler = { handle: () => Promise.reject(new Error('should not be invoked')) };
+        const lexEvent = new lxev.LexEventBuilder().build();
+        delete lexEvent.currentIntent;
+
+        const r: lx.LexResult = await lx.route(lexEvent, null, { dialog: handler, fulfill: handler }, {
+            logger: new lxl.JsonLogger({ sink: (line) => lines.push(line) })
+        });
+
+        expect((r.dialogAction as LexDialogActionClose).fulfillmentState).toBe('Failed');
+        const entry = lines.map((line) => JSON.parse(line)).find((e) => e.level === 'ERROR');
+        expect(entry.error.name).toBe('MalformedLexEventError');
+        expect(entry.issues).toEqual([ 'missing currentIntent' ]);
+    });
+
+})
@@ -0,0 +1,157 @@
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookErrorMapping as lxerr,
+    LexHookErrors as lxe,
+    LexHookLogging as lxl,
+    LexHookMessages as lxm,
+    LexHookV2 as lxv2
+}  from '../src/index';
+
+
+/**
+ * The same V1 LexEventHandler used by the V1 tests, adapted to V2
+ */
+const lexEventHandler: lxv2.LexV2EventHandlerSet = lxv2.LexV2Adapter.fromLexEventHandler({
+
+    dialog: new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.NotNullSlotEvaluator(
+                'test_slot',
+                'test slot value?')
+        ],
+    }),
+
+    fulfill: {
+        handle: (): Promise<lx.LexResult> => {
+            return Promise.resolve(lx.LexResultFactory.dialogActionClose({
+                fulfillmentState: 'Fulfilled'
+            }));
+        }
+    }
+
+});
+
+const testLexV2Event = (
+    invocationSource: 'DialogCodeHook' | 'FulfillmentCodeHook',
+    slot: lxv2.LexV2Slot | null
+): lxv2.LexV2Event => {
+    const intent: lxv2.LexV2Intent = {
+        name: 'test',
+        slots: { 'test_slot': slot },
+        state: 'InProgress',
+        confirmationState: 'None'
+    };
+    return {
+        messageVersion: '1.0',
+        invocationSource,
+        inputMode: 'Text',
+        responseContentType: 'text/plain; charset=utf-8',
+        sessionId: '123',
+        inputTranscript: 'i want to ride the zamboni',
+        bot: {
+            id: 'BOTID',
+            name: 'TestBot',
+            aliasId: 'TSTALIASID',
+            localeId: 'en_US',
+            version: 'DRAFT'
+        },
+        interpretations: [ { intent } ],
+        sessionState: {
+            sessionAttributes: { 'key': 'value' },
+            intent
+        }
+    };
+};
+
+
+describe('lex v2', () => {
+
+    test('test case: dialog with valid slot delegates', async () => {
+        const slot: lxv2.LexV2Slot = {
+            value: { originalValue: 'the zamboni', interpretedValue: 'zamboni', resolvedValues: [ 'zamboni' ] }
+        };
+        const r: lxv2.LexV2Result = await lxv2.routeV2(testLexV2Event('DialogCodeHook', slot), null, lexEventHandler);
+        expect(r.sessionState.dialogAction.type).toBe('Delegate');
+        expect(r.sessionState.intent.slots['test_slot']).toBe(slot);
+        expect(r.sessionState.sessionAttributes).toEqual({ 'key': 'value' });
+    });
+
+    test('test case: delegate without slots keeps the current slots', async () => {
+        const slot: lxv2.LexV2Slot = {
+            value: { originalValue: 'the zamboni', interpretedValue: 'zamboni', resolvedValues: [ 'zamboni' ] }
+        };
+        const delegating: lxv2.LexV2EventHandler = lxv2.LexV2Adapter.fromEventHandler({
+            handle: async () => lx.LexResultFactory.dialogActionDelegate({})
+        });
+        const r: lxv2.LexV2Result = await delegating.handle(testLexV2Event('DialogCodeHook', slot));
+        expect(r.sessionState.dialogAction.type).toBe('Delegate');
+        expect(r.sessionState.intent.slots).toEqual({ 'test_slot': slot });
+    });
+
+    test('test case: dialog with null slot elicits', async () => {
+        const r: lxv2.LexV2Result = await lxv2.routeV2(testLexV2Event('DialogCodeHook', null), null, lexEventHandler);
+        expect(r.sessionState.dialogAction.type).toBe('ElicitSlot');
+        expect(r.sessionState.dialogAction.slotToElicit).toBe('test_slot');
+        expect(r.messages[0].content).toBe('test slot value?');
+    });
+
+    test('test case: fulfill', async () => {
+        const r: lxv2.LexV2Result =
+            await lxv2.routeV2(testLexV2Event('FulfillmentCodeHook', null), null, lexEventHandler);
+        expect(r.sessionState.dialogAction.type).toBe('Close');
+        expect(r.sessionState.intent.state).toBe('Fulfilled');
+    });
+
+    test('test case: malformed event', async () => {
+        const lines: string[] = [];
+        const logger = new lxl.JsonLogger({ sink: (line) => lines.push(line) });
+        const lexEvent = { ...testLexV2Event('DialogCodeHook', null), invocationSource: 'Other' };
+
+        const r = await lxv2.routeV2(lexEvent as unknown as lxv2.LexV2Event, null, lexEventHandler, { logger });
+        expect(r.sessionState.intent.state).toBe('Failed');
+        expect(JSON.parse(lines[lines.length - 1]).error.name).toBe('MalformedLexEventError');
+    });
+
+    test('test case: errors are answered from the message catalog', async () => {
+        const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+        const messageCatalog = new lxm.MessageCatalog({
+            defaultLocale: 'en-US',
+            messages: { 'fr-CA': { [lxm.MessageKeys.ROUTE_ERROR]: 'Une erreur est survenue' } },
+        });
+        const failing: lxv2.LexV2EventHandlerSet = {
+            dialog: { handle: () => Promise.reject(new Error('boom')) },
+            fulfill: lexEventHandler.fulfill,
+        };
+        const lexEvent = testLexV2Event('DialogCodeHook', null);
+        lexEvent.sessionState.sessionAttributes.locale = 'fr-CA';
+
+        const r = await lxv2.routeV2(lexEvent, null, failing, { logger, messageCatalog });
+        expect(r.sessionState.dialogAction.type).toBe('Close');
+        expect(r.sessionState.intent.state).toBe('Failed');
+        expect(r.messages).toEqual([ { contentType: 'PlainText', content: 'Une erreur est survenue' } ]);
+        expect(r.sessionState.sessionAttributes).toEqual({ 'key': 'value', 'locale': 'fr-CA' });
+    });
+
+    test('test case: errors are mapped by the errorMapper, or rethrown', async () => {
+        const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+        const failing = (error: Error): lxv2.LexV2EventHandlerSet => ({
+            dialog: { handle: () => Promise.reject(error) },
+            fulfill: lexEventHandler.fulfill,
+        });
+        const errorMapper = lxerr.ErrorMappers.handoff((e) => e instanceof lxe.DownstreamUnavailableError,
+            'TalkToAgent', 'Would you like to speak to an agent?');
+        const options: lxv2.RouteV2Options = { logger, errorMapper, rethrow: (e) => e instanceof lxe.FatalError };
+
+        const handoff = await lxv2.routeV2(testLexV2Event('DialogCodeHook', null), null,
+            failing(new lxe.DownstreamUnavailableError('timeout')), options);
+        expect(handoff.sessionState.dialogAction.type).toBe('ConfirmIntent');
+        expect(handoff.sessionState.intent.name).toBe('TalkToAgent');
+        expect(handoff.messages[0].content).toBe('Would you like to speak to an agent?');
+        expect(handoff.sessionState.sessionAttributes).toEqual({ 'key': 'value' });
+
+        await expect(lxv2.routeV2(testLexV2Event('DialogCodeHook', null), null,
+            failing(new lxe.FatalError('config missing')), options)).rejects.toThrow(lxe.FatalError);
+    });
+
+})
@@ -0,0 +1,117 @@
+import { LexDialogActionElicitSlot } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookLogging as lxl,
+    LexHookMessages as lxm
+}  from '../src/index';
+
+
+const testLexEvent: lx.LexEvent = {
+    currentIntent: {
+        name: 'test',
+        slots: {
+            "test_slot": "zamboni",
+            "other_slot": "public"
+        },
+        slotDetails: {
+            "test_slot": {
+                resolutions: [ { value: 'zamboni' } ],
+                originalValue: "the zamboni"
+            }
+        },
+        confirmationStatus: 'None'
+    },
+    bot: {
+        name: 'TestBot',
+        alias: '$LATEST',
+        version: '$LATEST'
+    },
+    userId: '123',
+    inputTranscript: 'i want to ride the zamboni',
+    invocationSource: 'DialogCodeHook',
+    outputDialogMode: 'Text',
+    messageVersion: '1.0',
+    sessionAttributes: {},
+    requestAttributes: null,
+    recentIntentSummaryView: null,
+    sentimentResponse: null,
+    kendraResponse: null
+};
+
+
+describe('logging', () => {
+
+    test('test case: redaction', () => {
+        const r: lx.LexEvent = new lxl.Redactor({ slots: [ 'test_slot' ], inputTranscript: true, mask: 'X' })
+            .redactEvent(testLexEvent);
+        expect(r.inputTranscript).toBe('X');
+        expect(r.currentIntent.slots['test_slot']).toBe('X');
+        expect(r.currentIntent.slots['other_slot']).toBe('public');
+        expect(r.currentIntent.slotDetails['test_slot'].originalValue).toBe('X');
+        expect(testLexEvent.currentIntent.slots['test_slot']).toBe('zamboni');
+    });
+
+    test('test case: masked slot values are masked in messages', async () => {
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [ new lxd.SetMembershipSlotEvaluator('test_slot', 'no.value', new Set([ 'bus' ])) ],
+            messageCatalog: new lxm.MessageCatalog({
+                defaultLocale: 'en-US',
+                messages: { 'en-US': { 'no.value': 'Sorry, {value} is not available.' } }
+            })
+        });
+        const received: lx.LexEvent = JSON.parse(JSON.stringify(testLexEvent));
+        const r: lx.LexResult = await handler.handle(JSON.parse(JSON.stringify(testLexEvent)));
+        expect(JSON.stringify(r)).toContain('zamboni');
+
+        const redacted = new lxl.Redactor().redactResult(r, received);
+        expect((redacted.dialogAction as LexDialogActionElicitSlot).message.content)
+            .toBe('Sorry, **** is not available.');
+        expect(JSON.stringify(redacted)).not.toContain('zamboni');
+    });
+
+    test('test case: route logs structured, redacted entries', async () => {
+        const lines: string[] = [];
+        const logger = new lxl.JsonLogger({ level: lxl.LogLevel.DEBUG, sink: (line) => lines.push(line) });
+
+        await lx.route(testLexEvent, null, {
+            dialog: { handle: () => Promise.resolve(lx.LexResultFactory.dialogActionDelegate({ slots: {} })) },
+            fulfill: null
+        }, { logger });
+
+        const entries = lines.map((line) => JSON.parse(line));
+        const received = entries.find((e) => e.message === 'LexEvent received');
+        expect(received.level).toBe('DEBUG');
+        expect(received.botName).toBe('TestBot');
+        expect(received.intentName).toBe('test');
+        expect(received.userId).toBe('123');
+        expect(received.invocationSource).toBe('DialogCodeHook');
+        expect(received.lexEvent.inputTranscript).toBe('****');
+        expect(lines.join('\n')).not.toContain('zamboni');
+    });
+
+    test('test case: errors are logged with their stack', async () => {
+        const lines: string[] = [];
+        const logger = new lxl.JsonLogger({ sink: (line) => lines.push(line) });
+
+        await lx.route(testLexEvent, null, {
+            dialog: { handle: () => Promise.reject(new Error('zamboni broke down')) },
+            fulfill: null
+        }, { logger });
+
+        const threw = lines.map((line) => JSON.parse(line)).find((e) => e.message === '::route(..) - threw exception!');
+        expect(threw.level).toBe('ERROR');
+        expect(threw.error.message).toBe('zamboni broke down');
+        expect(threw.error.stack).toContain('logger.test.ts');
+    });
+
+    test('test case: level filtering', () => {
+        const lines: string[] = [];
+        const logger = new lxl.JsonLogger({ level: lxl.LogLevel.WARN, sink: (line) => lines.push(line) });
+        logger.info('ignored');
+        logger.child({ a: 1 }).warn('kept');
+        expect(lines.length).toBe(1);
+        expect(JSON.parse(lines[0]).a).toBe(1);
+    });
+
+})
@@ -0,0 +1,91 @@
+import { LexDialogActionClose } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookEvents as lxev,
+    LexHookLogging as lxl,
+    LexHookMiddleware as lxmw
+}  from '../src/index';
+
+
+const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+
+/**
+ * A handler that echoes the input transcript
+ */
+const echo: lx.EventHandler = {
+    handle: (lexEvent: lx.LexEvent): Promise<lx.LexResult> => {
+        return Promise.resolve(lx.LexResultFactory.dialogActionClose({
+            fulfillmentState: 'Fulfilled',
+            message: { contentType: 'PlainText', content: lexEvent.inputTranscript },
+            sessionAttributes: lexEvent.sessionAttributes
+        }));
+    }
+};
+
+const content = (r: lx.LexResult): string => (r.dialogAction as LexDialogActionClose).message.content;
+
+
+describe('middleware', () => {
+
+    test('test case: before and after functions wrap the handler in onion order', async () => {
+        const calls: string[] = [];
+        const tracing = (name: string): lxmw.Middleware => ({
+            name,
+            before: () => { calls.push(`before ${name}`); },
+            after: () => { calls.push(`after ${name}`); }
+        });
+
+        await lx.route(new lxev.LexEventBuilder().build(), null, { dialog: echo, fulfill: echo }, {
+            logger,
+            middleware: [ tracing('a'), tracing('b') ]
+        });
+
+        expect(calls).toEqual([ 'before a', 'before b', 'after b', 'after a' ]);
+    });
+
+    test('test case: input filtering and response post-processing', async () => {
+        const r: lx.LexResult = await lx.route(
+            new lxev.LexEventBuilder().inputTranscript('darn it').build(), null, { dialog: echo, fulfill: echo }, {
+                logger,
+                middleware: [
+                    {
+                        after: (lexEvent, lexResult) => {
+                            lexResult.sessionAttributes = { ...lexResult.sessionAttributes, processed: 'true' };
+                        }
+                    },
+                    lxmw.Middlewares.filterInputTranscript((t) => t.replace(/darn/g, '****'))
+                ]
+            });
+
+        expect(content(r)).toBe('**** it');
+        expect(r.sessionAttributes).toEqual({ processed: 'true' });
+    });
+
+    test('test case: before function ends handling early', async () => {
+        const r: lx.LexResult = await lx.route(
+            new lxev.LexEventBuilder().requestAttributes({ token: 'bad' }).build(), null,
+            { dialog: echo, fulfill: echo }, {
+                logger,
+                middleware: [ lxmw.Middlewares.requireRequestAttributes((ra) => ra.token === 'good', 'go away') ]
+            });
+
+        expect(content(r)).toBe('go away');
+    });
+
+    test('test case: onError handles a handler error', async () => {
+        const failing: lx.EventHandler = { handle: () => Promise.reject(new Error('oops')) };
+        const r: lx.LexResult = await lx.route(new lxev.LexEventBuilder().build(), null,
+            { dialog: failing, fulfill: failing }, {
+                logger,
+                middleware: [ {
+                    onError: (lexEvent, error) => lx.LexResultFactory.dialogActionClose({
+                        fulfillmentState: 'Failed',
+                        message: { contentType: 'PlainText', content: `handled ${(error as Error).message}` }
+                    })
+                } ]
+            });
+
+        expect(content(r)).toBe('handled oops');
+    });
+
+})
@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookEvents as lxev,
+    LexHookLogging as lxl,
+    LexHookRecorder as lxr
+}  from '../src/index';
+
+
+const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+
+const createHandler = (flowerPrompt: string): lx.LexEventHandler => ({
+    dialog: new lxd.DefaultDialogEventHandler({
+        slotEvaluatorArray: [
+            new lxd.SetMembershipSlotEvaluator('FlowerType', flowerPrompt, new Set([ 'roses', 'tulips' ])),
+            new lxd.LexDateSlotEvaluator('PickupDate', 'What day?'),
+        ],
+        allSlotsValidHook: (lexEvent) => {
+            lexEvent.sessionAttributes.orderId = 'order-42';
+        },
+    }),
+    fulfill: {
+        handle: async (lexEvent) => lx.LexResultFactory.dialogActionClose({
+            fulfillmentState: 'Fulfilled',
+            sessionAttributes: lexEvent.sessionAttributes,
+        }),
+    },
+});
+
+/**
+ * Masks an attribute the handler computes, which does not affect the dialog
+ */
+const redactor = new lxl.Redactor({ sessionAttributes: [ 'orderId' ] });
+
+/**
+ * Plays turns of a conversation through route with a recorder, carrying session attributes as Lex would.
+ */
+const record = async (recorder: lxr.ConversationRecorder, userId: string, turns: { [slot: string]: string }[]) => {
+    let sessionAttributes: { [key: string]: string } = { token: 'secret' };
+    for (const slots of turns) {
+        const lexEvent = new lxev.LexEventBuilder('OrderFlowers')
+            .userId(userId)
+            .slots({ FlowerType: null, PickupDate: null, ...slots })
+            .inputTranscript(Object.values(slots).join(' '))
+            .sessionAttributes(sessionAttributes)
+            .build();
+        const r = await lx.route(lexEvent, null, createHandler('Which flower?'), {
+            logger,
+            middleware: [ recorder.asMiddleware() ],
+        });
+        sessionAttributes = r.sessionAttributes;
+    }
+};
+
+
+describe('recorder', () => {
+    test('test case: turns are recorded as redacted jsonl, by user and session', async () => {
+        const output = new PassThrough();
+        let jsonl = '';
+        output.on('data', (chunk) => (jsonl += chunk));
+
+        const recorder = new lxr.ConversationRecorder({
+            sink: lxr.RecordingSinks.stream(output),
+            redactor: new lxl.Redactor({ sessionAttributes: [ 'token' ] }),
+            now: () => new Date('2030-01-01T00:00:00Z'),
+        });
+        await record(recorder, 'pat', [ { FlowerType: 'daisies' }, { FlowerType: 'roses' } ]);
+        await record(recorder, 'sam', [ { FlowerType: 'tulips' } ]);
+
+        const conversations = lxr.Recordings.parse(jsonl);
+        expect(conversations.map((c) => [ c.userId, c.turns.length ])).toEqual([ [ 'pat', 2 ], [ 'sam', 1 ] ]);
+
+        const [ first, second ] = conversations[0].turns;
+        expect(first.timestamp).toBe('2030-01-01T00:00:00.000Z');
+        expect(first.lexEvent.sessionAttributes).toEqual({ token: '****' });
+        expect(first.lexResult.sessionAttributes).toEqual({ token: '****', 'lexhook.sessionId': first.sessionId });
+        expect(second.sessionId).toBe(first.sessionId);
+        expect(conversations[1].sessionId).not.toBe(first.sessionId);
+    });
+
+    test('test case: slot values and transcripts are redacted by default', async () => {
+        const turns: lxr.RecordedTurn[] = [];
+        const recorder = new lxr.ConversationRecorder({ sink: { write: (turn) => { turns.push(turn); } } });
+        await record(recorder, 'pat', [ { FlowerType: 'roses' } ]);
+
+        expect(turns[0].lexEvent.inputTranscript).toBe('****');
+        expect(turns[0].lexEvent.currentIntent.slots).toEqual({ FlowerType: '****', PickupDate: null });
+    });
+
+    test('test case: errors writing a turn do not affect the conversation', async () => {
+        const recorder = new lxr.ConversationRecorder({
+            sink: { write: () => Promise.reject(new Error('disk full')) },
+        });
+        const lexEvent = new lxev.LexEventBuilder('OrderFlowers')
+            .slots({ FlowerType: 'roses', PickupDate: null })
+            .build();
+        const r = await lx.route(lexEvent, null, createHandler('Which flower?'), {
+            logger,
+            middleware: [ recorder.asMiddleware() ],
+        });
+        expect(r.dialogAction.type).toBe('ElicitSlot');
+    });
+});
+
+describe('recorder: replay', () => {
+    let file: string;
+
+    beforeAll(async () => {
+        file = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'lexhook-')), 'recording.jsonl');
+        const recorder = new lxr.ConversationRecorder({ sink: lxr.RecordingSinks.jsonlFile(file), redactor });
+        await record(recorder, 'pat', [ { FlowerType: 'daisies' }, { FlowerType: 'roses' }, {
+            FlowerType: 'roses',
+            PickupDate: '2030-01-01',
+        } ]);
+    });
+
+    afterAll(async () => {
+        await fs.unlink(file);
+        await fs.rmdir(path.dirname(file));
+    });
+
+    test('test case: replay against unchanged handlers passes', async () => {
+        const conversations = await lxr.Recordings.read(file);
+        expect(conversations[0].turns[2].lexResult.sessionAttributes.orderId).toBe('****');
+
+        const report = await lxr.Recordings.replay(conversations, createHandler('Which flower?'), {
+            routeOptions: { logger },
+            redactor,
+        });
+        expect(report.passed).toBe(true);
+        expect(report.conversations[0].turns.map((t) => t.diffs)).toEqual([ [], [], [] ]);
+        expect(lxr.Recordings.formatReport(report)).toBe('');
+    });
+
+    test('test case: replay reports diffs', async () => {
+        const conversations = await lxr.Recordings.read(file);
+        conversations[0].turns[2].lexResult.sessionAttributes.token = 'changed';
+
+        const report = await lxr.Recordings.replay(conversations, createHandler('What kind of flowers?'), {
+            routeOptions: { logger },
+            redactor,
+        });
+        expect(report.passed).toBe(false);
+        expect(report.conversations[0].turns[0].diffs).toEqual([
+            { field: 'message', recorded: 'Which flower?', replayed: 'What kind of flowers?' },
+        ]);
+        expect(lxr.Recordings.formatReport(report).split('\n')).toEqual([
+            `pat ${conversations[0].sessionId} turn 0 "daisies": message recorded "Which flower?", ` +
+                'replayed "What kind of flowers?"',
+            `pat ${conversations[0].sessionId} turn 2 "roses 2030-01-01": sessionAttributes.token ` +
+                'recorded "changed", replayed "secret"',
+        ]);
+    });
+});
@@ -0,0 +1,93 @@
+import { LexDialogActionConfirmIntent, LexDialogActionDelegate, LexDialogActionElicitSlot } from 'aws-lambda';
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookEvents as lxev,
+    LexHookLogging as lxl,
+    LexHookSentiment as lxs
+}  from '../src/index';
+
+
+const logger = new lxl.JsonLogger({ level: lxl.LogLevel.SILENT });
+
+/**
+ * Plays turns with the given Negative scores, carrying session attributes between turns
+ */
+const play = async (
+    handle: (lexEvent: lx.LexEvent) => Promise<lx.LexResult>,
+    negativeScores: number[],
+    slots: { [name: string]: string } = {}
+): Promise<lx.LexResult[]> => {
+    const results: lx.LexResult[] = [];
+    let sessionAttributes = {};
+    for (const negative of negativeScores) {
+        const lexEvent = new lxev.LexEventBuilder('OrderFlowers')
+            .slots(slots)
+            .sessionAttributes({ ...sessionAttributes })
+            .sentiment(negative > 0.5 ? 'NEGATIVE' : 'NEUTRAL', { Negative: negative, Neutral: 1 - negative })
+            .build();
+        const r = await handle(lexEvent);
+        sessionAttributes = r.sessionAttributes;
+        results.push(r);
+    }
+    return results;
+};
+
+
+describe('sentiment', () => {
+
+    test('test case: trend is tracked across turns and escalates via middleware', async () => {
+        const policy = new lxs.SentimentPolicy({
+            escalateAfter: 2,
+            handoffIntentName: 'SpeakToAgent',
+            handoffMessage: 'Would you like to speak to an agent?'
+        });
+        const handler: lx.EventHandler = {
+            handle: (lexEvent) => Promise.resolve(lx.LexResultFactory.dialogActionDelegate({
+                slots: lexEvent.currentIntent.slots
+            }))
+        };
+        const handle = (lexEvent: lx.LexEvent): Promise<lx.LexResult> =>
+            lx.route(lexEvent, null, { dialog: handler, fulfill: handler }, {
+                logger,
+                middleware: [ policy.asMiddleware() ]
+            });
+
+        const results = await play(handle, [ 0.9, 0.1, 0.1, 0.8, 0.95 ]);
+
+        expect(results.map((r) => r.dialogAction.type))
+            .toEqual([ 'Delegate', 'Delegate', 'Delegate', 'Delegate', 'ConfirmIntent' ]);
+        expect(results[2].sessionAttributes['lexhook.sentiment']).toBe('[1,0,0]');
+        expect((results[4].dialogAction as LexDialogActionConfirmIntent).intentName).toBe('SpeakToAgent');
+        expect(results[4].sessionAttributes['lexhook.sentiment']).toBe('[]');
+    });
+
+    test('test case: softer prompts and skipped optional slots in the dialog handler', async () => {
+        const handler = new lxd.DefaultDialogEventHandler({
+            slotEvaluatorArray: [
+                new lxd.SetMembershipSlotEvaluator('FlowerType', 'Which flower?', new Set([ 'roses' ])),
+                new lxd.NotNullSlotEvaluator('Note', 'A note for the card?')
+            ],
+            slotRules: { Note: { optional: true } },
+            sentimentPolicy: new lxs.SentimentPolicy({
+                softenPrompt: (prompt) => `Sorry for the trouble. ${prompt}`,
+                skipOptionalSlots: true
+            })
+        });
+        const handle = (lexEvent: lx.LexEvent): Promise<lx.LexResult> => handler.handle(lexEvent);
+
+        const [ calm, upset ] = await play(handle, [ 0.1, 0.9 ], { FlowerType: 'weeds' });
+        expect((calm.dialogAction as LexDialogActionElicitSlot).message.content).toBe('Which flower?');
+        expect((upset.dialogAction as LexDialogActionElicitSlot).message.content)
+            .toBe('Sorry for the trouble. Which flower?');
+
+        const [ skipped ] = await play(handle, [ 0.9 ], { FlowerType: 'roses', Note: '' });
+        expect(skipped.dialogAction.type).toBe('Delegate');
+
+        const [ kept ] = await play(handle, [ 0.9 ], { FlowerType: 'roses', Note: 'Happy birthday' });
+        expect(kept.dialogAction.type).toBe('Delegate');
+        expect((kept.dialogAction as LexDialogActionDelegate).slots)
+            .toEqual({ FlowerType: 'roses', Note: 'Happy birthday' });
+    });
+
+})
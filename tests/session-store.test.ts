@@ -0,0 +1,120 @@
+import {
+    LexHook as lx,
+    LexHookErrors as lxe,
+    LexHookSession as lxs
+}  from '../src/index';
+
+
+const testLexEvent = (sessionAttributes: { [key: string]: string }): lx.LexEvent => {
+    return {
+        currentIntent: {
+            name: 'OrderFlowers',
+            slots: { 'flower': 'roses' },
+            slotDetails: {},
+            confirmationStatus: 'None'
+        },
+        bot: {
+            name: 'TestBot',
+            alias: '$LATEST',
+            version: '$LATEST'
+        },
+        userId: '123',
+        inputTranscript: 'roses',
+        invocationSource: 'FulfillmentCodeHook',
+        outputDialogMode: 'Text',
+        messageVersion: '1.0',
+        sessionAttributes,
+        requestAttributes: null,
+        recentIntentSummaryView: null,
+        sentimentResponse: null,
+        kendraResponse: null
+    };
+};
+
+const schema = {
+    cart: lxs.SessionAttributes.json<string[]>([]),
+    visits: lxs.SessionAttributes.number(0),
+    vip: lxs.SessionAttributes.boolean(false),
+    step: lxs.SessionAttributes.string(undefined, { intentScoped: true })
+};
+
+
+describe('session store', () => {
+
+    test('test case: values are coerced from session attributes', () => {
+        const session = new lxs.SessionStore(
+            testLexEvent({ cart: '["tulips"]', visits: '3', vip: 'true', 'OrderFlowers.step': 'pick' }), schema);
+        expect(session.get('cart')).toEqual([ 'tulips' ]);
+        expect(session.get('visits')).toBe(3);
+        expect(session.get('vip')).toBe(true);
+        expect(session.get('step')).toBe('pick');
+    });
+
+    test('test case: defaults are used for missing or unparseable values', () => {
+        const session = new lxs.SessionStore(testLexEvent({ cart: '[oops', visits: 'many' }), schema);
+        expect(session.get('cart')).toEqual([]);
+        expect(session.get('visits')).toBe(0);
+        expect(session.get('vip')).toBe(false);
+    });
+
+    test('test case: changes are written back into the result', async () => {
+        const handler = lxs.withSession(schema, async (lexEvent, session) => {
+            session.set('cart', [ ...session.get('cart'), lexEvent.currentIntent.slots['flower'] ]);
+            session.set('visits', session.get('visits') + 1);
+            session.delete('vip');
+            return lx.LexResultFactory.dialogActionClose({ fulfillmentState: 'Fulfilled' });
+        }, { namespace: 'shop' });
+
+        const r: lx.LexResult = await handler.handle(testLexEvent({ other: 'kept', 'shop.vip': 'true' }));
+        expect(r.sessionAttributes).toEqual({ other: 'kept', 'shop.cart': '["roses"]', 'shop.visits': '1' });
+    });
+
+    test('test case: session attributes returned by the handler are kept', async () => {
+        const overriding = lxs.withSession(schema, async (lexEvent, session) => {
+            session.set('visits', 2);
+            return lx.LexResultFactory.dialogActionClose({
+                fulfillmentState: 'Fulfilled',
+                sessionAttributes: { ...lexEvent.sessionAttributes, other: 'new' }
+            });
+        });
+        const r: lx.LexResult = await overriding.handle(testLexEvent({ other: 'old', visits: '1' }));
+        expect(r.sessionAttributes).toEqual({ other: 'new', visits: '2' });
+
+        const clearing = lxs.withSession(schema, async () => {
+            return lx.LexResultFactory.dialogActionClose({ fulfillmentState: 'Fulfilled', sessionAttributes: {} });
+        });
+        const cleared: lx.LexResult = await clearing.handle(testLexEvent({ other: 'old', visits: '1' }));
+        expect(cleared.sessionAttributes).toEqual({});
+    });
+
+    test('test case: json defaults are not shared', () => {
+        const session = new lxs.SessionStore(testLexEvent({}), schema);
+        session.get('cart').push('roses');
+        expect(session.get('cart')).toEqual([]);
+        expect(new lxs.SessionStore(testLexEvent({}), schema).get('cart')).toEqual([]);
+    });
+
+    test('test case: size budget', () => {
+        const session = new lxs.SessionStore(testLexEvent({}), schema, { maxSize: 100 });
+        session.set('cart', new Array(20).fill('sunflowers'));
+        expect(() => session.writeBack(lx.LexResultFactory.dialogActionDelegate({ slots: {} })))
+            .toThrow(lxe.SessionSizeExceededError);
+    });
+
+    test('test case: size budget applies to the session attributes of the result', () => {
+        const session = new lxs.SessionStore(testLexEvent({}), schema, { maxSize: 100 });
+        session.set('visits', 2);
+        const lexResult = lx.LexResultFactory.dialogActionDelegate({
+            slots: {},
+            sessionAttributes: { notes: 'x'.repeat(200) },
+        });
+        expect(() => session.writeBack(lexResult)).toThrow(lxe.SessionSizeExceededError);
+    });
+
+    test('test case: a result that clears an oversized session is within budget', () => {
+        const session = new lxs.SessionStore(testLexEvent({ notes: 'x'.repeat(200) }), schema, { maxSize: 100 });
+        const r = session.writeBack(lx.LexResultFactory.dialogActionDelegate({ slots: {}, sessionAttributes: {} }));
+        expect(r.sessionAttributes).toEqual({});
+    });
+
+})
@@ -0,0 +1,103 @@
+import {
+    LexHook as lx,
+    LexHookDialog as lxd,
+    LexHookEvents as lxev,
+    LexHookSlotEvaluators as lxse
+}  from '../src/index';
+
+
+/**
+ * Returns the value an evaluator resolves the slot value to, or null if the value is invalid
+ */
+const resolve = async (evaluator: lxd.SlotEvaluator, value: string): Promise<string> => {
+    const lexEvent: lx.LexEvent = new lxev.LexEventBuilder().slot(evaluator.slotName, value).build();
+    const se = await evaluator.evaluate(lexEvent);
+    return se.valid === lxd.SlotValidationAssessment.INVALID ? null : (se.newSlots || {})[evaluator.slotName] ?? value;
+};
+
+const valid = async (evaluator: lxd.SlotEvaluator, values: string[]): Promise<boolean[]> =>
+    Promise.all(values.map(async (v) => (await resolve(evaluator, v)) !== null));
+
+
+describe('slot evaluators', () => {
+
+    test('test case: numbers, patterns and lengths', async () => {
+        const quantity = new lxse.NumericRangeSlotEvaluator('q', 'How many?', { min: 1, max: 12, integer: true });
+        expect(await valid(quantity, [ '1', '12', '0', '13', '2.5', 'two', '' ])).toEqual(
+            [ true, true, false, false, false, false, false ]);
+
+        const code = new lxse.PatternSlotEvaluator('c', 'Code?', /^[A-Z]{3}\d{2}$/);
+        expect(await valid(code, [ 'ABC12', 'abc12' ])).toEqual([ true, false ]);
+
+        const name = new lxse.LengthSlotEvaluator('n', 'Name?', { min: 2, max: 5 });
+        expect(await valid(name, [ 'Al', 'A', 'Alexander' ])).toEqual([ true, false, false ]);
+    });
+
+    test('test case: email, phone number and zip code', async () => {
+        const email = new lxse.EmailSlotEvaluator('e', 'Email?');
+        expect(await resolve(email, 'pat at example dot com')).toBe('pat@example.com');
+        expect(await resolve(email, 'pat@example')).toBeNull();
+
+        const phone = new lxse.PhoneNumberSlotEvaluator('p', 'Phone?');
+        expect(await resolve(phone, '+1 (415) 555-0123')).toBe('+14155550123');
+        expect(await resolve(phone, '415-555-0123')).toBeNull();
+
+        const zip = new lxse.ZipCodeSlotEvaluator('z', 'Zip?');
+        expect(await valid(zip, [ '94105', '94105-1420', '9410', '94105-14' ])).toEqual([ true, true, false, false ]);
+    });
+
+    test('test case: times, relative dates and durations', async () => {
+        const time = new lxse.TimeSlotEvaluator('t', 'When?');
+        expect(await valid(time, [ '09:30', '23:59', 'AF', 'EV', '24:00', '9:30', 'XX' ])).toEqual(
+            [ true, true, true, true, false, false, false ]);
+        expect(await valid(new lxse.TimeSlotEvaluator('t', 'When?', false), [ 'MO' ])).toEqual([ false ]);
+
+        const now = (): Date => new Date(2030, 0, 1, 15);
+        const date = new lxse.RelativeDateSlotEvaluator('d', 'Date?', { min: 1, max: 90 }, now);
+        expect(await valid(date, [ '2030-01-01', '2030-01-02', '2030-04-01', '2030-04-02', '2030-02-30' ])).toEqual(
+            [ false, true, true, false, false ]);
+
+        const duration = new lxse.DurationSlotEvaluator('l', 'How long?', { max: 2 * 60 * 60 });
+        expect(await valid(duration, [ 'PT15M', 'PT2H', 'PT2H1S', 'P1D', 'PT', '15 minutes' ])).toEqual(
+            [ true, true, false, false, false, false ]);
+        expect(lx.Util.parseDuration('P1W2DT3H')).toBe(9 * 24 * 3600 + 3 * 3600);
+    });
+
+    test('test case: currency', async () => {
+        const amount = new lxd.CurrencySlotEvaluator('a', 'How much?');
+        expect(await valid(amount, [ '1234.56', '$1,234.56', '-€5', '$-0.99', '12', '1,23.00', '1.234', '--1', 'abc' ]))
+            .toEqual([ true, true, true, true, true, false, false, false, false ]);
+        expect(lx.Util.parseCurrency('$1,000,000.5')).toBe(1000000.5);
+        expect(await valid(new lxd.CurrencySlotEvaluator('a', 'How much?', { min: 0 }), [ '-1' ])).toEqual([ false ]);
+    });
+
+    test('test case: combinators', async () => {
+        const even = new lxse.PatternSlotEvaluator('q', 'How many?', /[02468]$/);
+        const dozen = new lxse.NumericRangeSlotEvaluator('q', 'How many?', { min: 1, max: 12 });
+        const thirteen = new lxse.PatternSlotEvaluator('q', 'How many?', /^13$/);
+
+        expect(await valid(lxse.SlotEvaluators.and(dozen, even), [ '4', '5', '14' ])).toEqual([ true, false, false ]);
+        expect(await valid(lxse.SlotEvaluators.or(dozen, even), [ '5', '14', '15' ])).toEqual([ true, true, false ]);
+        expect(await valid(lxse.SlotEvaluators.not(thirteen), [ '12', '13' ])).toEqual([ true, false ]);
+        expect(lxse.SlotEvaluators.not(thirteen).promptMessage).toBe('How many?');
+    });
+
+    test('test case: combined evaluators canonicalize slot values', async () => {
+        const usPhone = lxse.SlotEvaluators.and(
+            new lxse.PhoneNumberSlotEvaluator('c', 'Phone?'),
+            new lxse.PatternSlotEvaluator('c', 'Phone?', /^\+1\d{10}$/));
+        expect(await resolve(usPhone, '+1 (415) 555-0123')).toBe('+14155550123');
+        expect(await resolve(usPhone, '+44 20 7946 0958')).toBeNull();
+
+        const contact = lxse.SlotEvaluators.or(new lxse.EmailSlotEvaluator('c', 'Email?'), usPhone);
+        expect(await resolve(contact, 'pat at example dot com')).toBe('pat@example.com');
+        expect(await resolve(contact, '+1 415 555 0123')).toBe('+14155550123');
+        expect(await resolve(contact, 'pat')).toBeNull();
+
+        const tip = lxse.SlotEvaluators.and(
+            new lxd.CurrencySlotEvaluator('a', 'How much?', { min: 0 }),
+            lxse.SlotEvaluators.not(new lxd.SetMembershipSlotEvaluator('a', 'How much?', new Set([ '0', '$0' ]))));
+        expect(await valid(tip, [ '$5', '0', '-1', 'abc' ])).toEqual([ true, false, false, false ]);
+    });
+
+})